@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('audit');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+// Long argument values (e.g. write_file content) are clipped in the log
+const MAX_ARGUMENT_CHARS = 2000;
+// A failed tool's error is its output, which can be long too
+const MAX_ERROR_CHARS = 500;
+
+export interface AuditConfig {
+  enabled: boolean;
+  /** Days of audit files to keep; 0 keeps them forever. */
+  retentionDays: number;
+}
+
+export type RunStatus =
+  | 'completed'
+  | 'cancelled'
+  | 'denied'
+  | 'failed'
+  | 'max_iterations'
+  | 'timed_out'
+  | 'loop_detected';
+export type ToolCallStatus = 'ok' | 'error' | 'denied' | 'skipped';
+
+interface AuditEntryBase {
+  id: string;
+  timestamp: number;
+  runId: string;
+  conversationId: string;
+  agent: string;
+  model: string;
+  channel?: string;
+  sender?: string;
+}
+
+export interface RunAuditEntry extends AuditEntryBase {
+  type: 'run';
+  status: RunStatus;
+  durationMs: number;
+  iterations: number;
+  toolCalls: number;
+  /** provider/model of the fallback backends that answered, if any did. */
+  fallbacks?: string[];
+  error?: string;
+}
+
+export interface ToolAuditEntry extends AuditEntryBase {
+  type: 'tool_call';
+  tool: string;
+  arguments: Record<string, unknown>;
+  status: ToolCallStatus;
+  /** Set when the approval policy asked for a decision. */
+  approval?: 'approved' | 'denied';
+  exitCode?: number;
+  /** Why the call failed: the exception, or the output of a tool that reported failure. */
+  error?: string;
+  durationMs: number;
+  outputChars: number;
+  truncated: boolean;
+}
+
+export type AuditEntry = RunAuditEntry | ToolAuditEntry;
+
+export type NewAuditEntry =
+  | Omit<RunAuditEntry, 'id' | 'timestamp'>
+  | Omit<ToolAuditEntry, 'id' | 'timestamp'>;
+
+export interface AuditQuery {
+  type?: AuditEntry['type'];
+  conversationId?: string;
+  runId?: string;
+  channel?: string;
+  sender?: string;
+  tool?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+function dayOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function clipArguments(args: Record<string, unknown>): Record<string, unknown> {
+  const clipped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    clipped[key] =
+      typeof value === 'string' && value.length > MAX_ARGUMENT_CHARS
+        ? `${value.substring(0, MAX_ARGUMENT_CHARS)}[...${value.length - MAX_ARGUMENT_CHARS} chars clipped]`
+        : value;
+  }
+  return clipped;
+}
+
+/**
+ * Append-only record of agent runs and tool calls. Entries go to one JSONL
+ * file per UTC day; retention deletes whole files, so existing lines are
+ * never rewritten.
+ */
+export class AuditLog {
+  private config: AuditConfig;
+  private auditDir: string;
+  private lastPruneDay: string | null = null;
+
+  constructor(config: AuditConfig, baseDir: string) {
+    this.config = config;
+    this.auditDir = path.join(baseDir, 'audit');
+    if (this.config.enabled) {
+      if (!fs.existsSync(this.auditDir)) {
+        fs.mkdirSync(this.auditDir, { recursive: true });
+      }
+      this.prune();
+    }
+  }
+
+  record(entry: NewAuditEntry): void {
+    if (!this.config.enabled) return;
+
+    const full = { id: uuidv4(), timestamp: Date.now(), ...entry } as AuditEntry;
+    if (full.type === 'tool_call') {
+      full.arguments = clipArguments(full.arguments);
+      if (full.error && full.error.length > MAX_ERROR_CHARS) {
+        full.error = `${full.error.substring(0, MAX_ERROR_CHARS)}[...${full.error.length - MAX_ERROR_CHARS} chars clipped]`;
+      }
+    }
+
+    const day = dayOf(full.timestamp);
+    if (day !== this.lastPruneDay) {
+      this.prune();
+    }
+
+    try {
+      fs.appendFileSync(
+        path.join(this.auditDir, `audit-${day}.jsonl`),
+        JSON.stringify(full) + '\n',
+        'utf-8'
+      );
+    } catch (err) {
+      logger.error(`Failed to write audit entry: ${err}`);
+    }
+  }
+
+  /** Matching entries, newest first. */
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    if (!fs.existsSync(this.auditDir)) return [];
+
+    const limit = filter.limit && filter.limit > 0 ? filter.limit : 100;
+    const sinceDay = filter.since !== undefined ? dayOf(filter.since) : null;
+    const untilDay = filter.until !== undefined ? dayOf(filter.until) : null;
+
+    const days = this.listDays()
+      .filter((d) => (!sinceDay || d >= sinceDay) && (!untilDay || d <= untilDay))
+      .reverse();
+
+    const results: AuditEntry[] = [];
+    for (const day of days) {
+      const entries = this.readDay(day).filter((e) => this.matches(e, filter));
+      results.push(...entries.reverse());
+      if (results.length >= limit) break;
+    }
+    return results.slice(0, limit);
+  }
+
+  private matches(entry: AuditEntry, filter: AuditQuery): boolean {
+    if (filter.type && entry.type !== filter.type) return false;
+    if (filter.conversationId && entry.conversationId !== filter.conversationId) return false;
+    if (filter.runId && entry.runId !== filter.runId) return false;
+    if (filter.channel && entry.channel !== filter.channel) return false;
+    if (filter.sender && entry.sender !== filter.sender) return false;
+    if (filter.tool && (entry.type !== 'tool_call' || entry.tool !== filter.tool)) return false;
+    if (filter.since !== undefined && entry.timestamp < filter.since) return false;
+    if (filter.until !== undefined && entry.timestamp > filter.until) return false;
+    return true;
+  }
+
+  private readDay(day: string): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    const lines = fs
+      .readFileSync(path.join(this.auditDir, `audit-${day}.jsonl`), 'utf-8')
+      .split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        logger.warn(`Skipping corrupt audit line in ${day}`);
+      }
+    }
+    return entries;
+  }
+
+  private listDays(): string[] {
+    return fs
+      .readdirSync(this.auditDir)
+      .map((f) => FILE_PATTERN.exec(f)?.[1])
+      .filter((d): d is string => !!d)
+      .sort();
+  }
+
+  private prune(): void {
+    this.lastPruneDay = dayOf(Date.now());
+    if (!this.config.retentionDays || this.config.retentionDays <= 0) return;
+
+    const cutoff = dayOf(Date.now() - this.config.retentionDays * DAY_MS);
+    for (const day of this.listDays()) {
+      if (day >= cutoff) continue;
+      try {
+        fs.unlinkSync(path.join(this.auditDir, `audit-${day}.jsonl`));
+        logger.info(`Removed audit file for ${day} (retention ${this.config.retentionDays} days)`);
+      } catch (err) {
+        logger.warn(`Failed to remove audit file for ${day}: ${err}`);
+      }
+    }
+  }
+}
@@ -24,6 +24,8 @@ export interface IncomingMessage {
   senderName: string;
   text: string;
   timestamp: number;
+  /** Channel-specific address for messages back to the sender, if it differs from senderId. */
+  replyTo?: string;
   raw?: unknown;
 }
 
@@ -36,50 +38,112 @@ export interface OutgoingMessage {
 
 export type MessageHandler = (message: IncomingMessage) => Promise<string>;
 
+export type ChannelStatusListener = (connected: boolean, reason?: string) => void;
+
 export interface Channel {
   type: string;
   name: string;
   start(handler: MessageHandler): Promise<void>;
   stop(): Promise<void>;
-  send(message: OutgoingMessage): Promise<void>;
+  /** Sends a message and resolves to the platform message id, when there is one. */
+  send(message: OutgoingMessage): Promise<string | undefined>;
+  isValidRecipient(recipientId: string): boolean;
   isConnected(): boolean;
+  /** Called whenever the channel connects or disconnects. */
+  onStatusChange?(listener: ChannelStatusListener): void;
 }
 
 export class ChannelManager {
   private channels: Map<string, Channel> = new Map();
   private configs: Map<string, ChannelConfig> = new Map();
   private handler: MessageHandler | null = null;
+  private statusListener: ((channel: string, connected: boolean, reason?: string) => void) | null =
+    null;
 
   constructor(configs: ChannelConfig[]) {
     for (const config of configs) {
-      const channel = createChannel(config);
-      if (channel) {
-        const key = config.name || config.type;
-        this.channels.set(key, channel);
-        this.configs.set(key, config);
-        logger.info(`Channel registered: ${config.type} (${key})`);
-      }
+      this.register(config);
     }
   }
 
+  private register(config: ChannelConfig): Channel | null {
+    const channel = createChannel(config);
+    if (!channel) return null;
+
+    const key = config.name || config.type;
+    this.channels.set(key, channel);
+    this.configs.set(key, config);
+    this.watchStatus(key, channel);
+    logger.info(`Channel registered: ${config.type} (${key})`);
+    return channel;
+  }
+
   setHandler(handler: MessageHandler): void {
     this.handler = handler;
   }
 
+  /** Reports connects and disconnects of every channel that supports it. */
+  onStatusChange(listener: (channel: string, connected: boolean, reason?: string) => void): void {
+    this.statusListener = listener;
+    for (const [name, channel] of this.channels) {
+      this.watchStatus(name, channel);
+    }
+  }
+
+  private watchStatus(name: string, channel: Channel): void {
+    const listener = this.statusListener;
+    if (!listener) return;
+    channel.onStatusChange?.((connected, reason) => listener(name, connected, reason));
+  }
+
   async startAll(): Promise<void> {
     for (const [name, channel] of this.channels) {
-      const config = this.configs.get(name);
-      if (config?.autoStart === false) {
-        logger.info(`Channel skipped (autoStart=false): ${name}`);
-        continue;
+      await this.autoStart(name, channel);
+    }
+  }
+
+  private async autoStart(name: string, channel: Channel): Promise<void> {
+    if (this.configs.get(name)?.autoStart === false) {
+      logger.info(`Channel skipped (autoStart=false): ${name}`);
+      return;
+    }
+    try {
+      if (this.handler) {
+        await channel.start(this.handler);
+        logger.info(`Channel started: ${name}`);
       }
+    } catch (err) {
+      logger.error(`Failed to start channel ${name}: ${err}`);
+    }
+  }
+
+  /**
+   * Brings the channels in line with a reloaded config: removed channels are
+   * stopped, new ones are registered and started, and channels whose
+   * settings changed are restarted with the new settings.
+   */
+  async reconcile(configs: ChannelConfig[]): Promise<void> {
+    const wanted = new Map(configs.map((c) => [c.name || c.type, c]));
+
+    for (const [name, channel] of Array.from(this.channels)) {
+      const next = wanted.get(name);
+      if (next && JSON.stringify(next) === JSON.stringify(this.configs.get(name))) continue;
+
       try {
-        if (this.handler) {
-          await channel.start(this.handler);
-          logger.info(`Channel started: ${name}`);
-        }
+        await channel.stop();
       } catch (err) {
-        logger.error(`Failed to start channel ${name}: ${err}`);
+        logger.error(`Failed to stop channel ${name}: ${err}`);
+      }
+      this.channels.delete(name);
+      this.configs.delete(name);
+      logger.info(next ? `Channel settings changed, restarting: ${name}` : `Channel removed: ${name}`);
+    }
+
+    for (const [name, config] of wanted) {
+      if (this.channels.has(name)) continue;
+      const channel = this.register(config);
+      if (channel) {
+        await this.autoStart(name, channel);
       }
     }
   }
@@ -122,6 +186,35 @@ export class ChannelManager {
     }
   }
 
+  async send(
+    name: string,
+    message: Omit<OutgoingMessage, 'channelType' | 'channelName'>
+  ): Promise<string | undefined> {
+    const channel = this.channels.get(name);
+    if (!channel) {
+      throw new Error(`Channel not found: ${name}`);
+    }
+    if (!channel.isConnected()) {
+      throw new Error(`Channel not connected: ${name}`);
+    }
+    if (!channel.isValidRecipient(message.recipientId)) {
+      throw new Error(`Invalid recipient for ${channel.type}: ${message.recipientId}`);
+    }
+    return channel.send({
+      channelType: channel.type,
+      channelName: name,
+      ...message,
+    });
+  }
+
+  hasChannel(name: string): boolean {
+    return this.channels.has(name);
+  }
+
+  isValidRecipient(name: string, recipientId: string): boolean {
+    return this.channels.get(name)?.isValidRecipient(recipientId) ?? false;
+  }
+
   getStatus(): Record<string, boolean> {
     const status: Record<string, boolean> = {};
     for (const [name, channel] of this.channels) {
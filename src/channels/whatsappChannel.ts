@@ -8,7 +8,12 @@ import makeWASocket, {
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import * as qrcode from 'qrcode-terminal';
-import { Channel, MessageHandler, IncomingMessage } from './channelManager';
+import {
+  Channel,
+  ChannelStatusListener,
+  MessageHandler,
+  IncomingMessage,
+} from './channelManager';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.create('whatsapp');
@@ -26,6 +31,7 @@ export class WhatsAppChannel implements Channel {
   private config: WhatsAppChannelConfig;
   private socket: WASocket | null = null;
   private handler: MessageHandler | null = null;
+  private statusListener: ChannelStatusListener | null = null;
   private connected = false;
   private processedMessages = new Set<string>();
   private botSentMessages = new Set<string>();
@@ -51,24 +57,47 @@ export class WhatsAppChannel implements Channel {
       this.socket.end(undefined);
       this.socket = null;
     }
-    this.connected = false;
+    this.setConnected(false, 'stopped');
     logger.info('WhatsApp channel stopped');
   }
 
-  async send(message: { recipientId: string; text: string }): Promise<void> {
+  async send(message: { recipientId: string; text: string }): Promise<string | undefined> {
     if (!this.socket) {
       throw new Error('WhatsApp socket not connected');
     }
-    const jid = message.recipientId.includes('@')
-      ? message.recipientId
-      : `${message.recipientId}@s.whatsapp.net`;
-    await this.socket.sendMessage(jid, { text: message.text });
+    if (!this.isValidRecipient(message.recipientId)) {
+      throw new Error(`Invalid WhatsApp recipient: ${message.recipientId}`);
+    }
+    const recipient = message.recipientId.trim();
+    const jid = recipient.includes('@')
+      ? recipient
+      : `${recipient.replace(/[\s+\-()]/g, '')}@s.whatsapp.net`;
+    return this.sendText(jid, message.text);
+  }
+
+  /** Accepts a phone number in international format or a full WhatsApp JID. */
+  isValidRecipient(recipientId: string): boolean {
+    const recipient = recipientId.trim();
+    if (recipient.includes('@')) {
+      return /^[\w.:-]+@(s\.whatsapp\.net|g\.us|lid)$/.test(recipient);
+    }
+    return /^\d{6,15}$/.test(recipient.replace(/[\s+\-()]/g, ''));
   }
 
   isConnected(): boolean {
     return this.connected;
   }
 
+  onStatusChange(listener: ChannelStatusListener): void {
+    this.statusListener = listener;
+  }
+
+  private setConnected(connected: boolean, reason?: string): void {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListener?.(connected, reason);
+  }
+
   private async connect(): Promise<void> {
     const { state, saveCreds } = await useMultiFileAuthState(this.config.authDir);
     const { version } = await fetchLatestBaileysVersion();
@@ -111,17 +140,17 @@ export class WhatsAppChannel implements Channel {
       }
 
       if (connection === 'open') {
-        this.connected = true;
+        this.setConnected(true);
         this.reconnectAttempts = 0;
         logger.info('WhatsApp connected successfully');
       }
 
       if (connection === 'close') {
-        this.connected = false;
+        const error = lastDisconnect?.error as Boom | undefined;
+        this.setConnected(false, this.stopping ? 'stopped' : error?.message);
 
         if (this.stopping) return;
 
-        const error = lastDisconnect?.error as Boom | undefined;
         const statusCode = error?.output?.statusCode;
         logger.warn(
           `WhatsApp disconnected: status=${statusCode}, reason=${error?.message || 'unknown'}`
@@ -152,6 +181,32 @@ export class WhatsAppChannel implements Channel {
     });
   }
 
+  // LID JIDs can't receive messages; resolve to phone number JID
+  private resolveReplyJid(jid: string): string {
+    if (jid.endsWith('@lid') && this.socket?.user?.id) {
+      const replyJid = this.socket.user.id.replace(/:.*@/, '@');
+      logger.info(`Resolved LID ${jid} to ${replyJid}`);
+      return replyJid;
+    }
+    return jid;
+  }
+
+  private async sendText(jid: string, text: string): Promise<string | undefined> {
+    if (!this.socket) {
+      throw new Error('WhatsApp socket not connected');
+    }
+    const msgContent = { conversation: text };
+    const sent = await this.socket.sendMessage(jid, { text });
+    logger.info(`Sent message to ${jid}, msgId=${sent?.key?.id}`);
+    if (sent?.key?.id) {
+      this.botSentMessages.add(sent.key.id);
+      this.messageStore.set(sent.key.id, msgContent);
+      // Clean up store after 5 minutes
+      setTimeout(() => this.messageStore.delete(sent.key.id!), 5 * 60 * 1000);
+    }
+    return sent?.key?.id || undefined;
+  }
+
   private async handleIncomingMessage(
     msg: proto.IWebMessageInfo
   ): Promise<void> {
@@ -218,6 +273,7 @@ export class WhatsAppChannel implements Channel {
     if (!text.trim()) return;
 
     const senderNumber = jid.replace(/@(s\.whatsapp\.net|lid)$/, '');
+    const replyJid = this.resolveReplyJid(jid);
 
     const incoming: IncomingMessage = {
       channelType: 'whatsapp',
@@ -226,6 +282,7 @@ export class WhatsAppChannel implements Channel {
       senderName: msg.pushName || senderNumber,
       text: text.trim(),
       timestamp: (msg.messageTimestamp as number) * 1000 || Date.now(),
+      replyTo: replyJid,
       raw: msg,
     };
 
@@ -246,21 +303,7 @@ export class WhatsAppChannel implements Channel {
       }
 
       if (response && this.socket) {
-        // LID JIDs can't receive messages; resolve to phone number JID
-        let replyJid = jid;
-        if (jid.endsWith('@lid') && this.socket.user?.id) {
-          replyJid = this.socket.user.id.replace(/:.*@/, '@');
-          logger.info(`Resolved LID ${jid} to ${replyJid}`);
-        }
-        const msgContent = { conversation: response };
-        const sent = await this.socket.sendMessage(replyJid, { text: response });
-        logger.info(`Sent reply to ${replyJid}, msgId=${sent?.key?.id}`);
-        if (sent?.key?.id) {
-          this.botSentMessages.add(sent.key.id);
-          this.messageStore.set(sent.key.id, msgContent);
-          // Clean up store after 5 minutes
-          setTimeout(() => this.messageStore.delete(sent.key.id!), 5 * 60 * 1000);
-        }
+        await this.sendText(replyJid, response);
       }
     } catch (err) {
       logger.error(`Error handling WhatsApp message: ${err}`);
@@ -1,12 +1,78 @@
 import { Command } from 'commander';
-import { ConfigManager } from './config/configManager';
+import * as fs from 'fs';
+import fetch from 'node-fetch';
+import { ConfigManager, OpenClawConfig } from './config/configManager';
+import { formatConfigIssues } from './config/configSchema';
 import { HealthChecker } from './utils/health';
 import { LLMProvider } from './llm/llmProvider';
+import { formatTranscriptMarkdown } from './conversations/transcript';
+import { API_SCOPES, generateToken, hashToken, isValidScope } from './gateway/apiTokens';
 import { Logger } from './utils/logger';
 
 const logger = Logger.create('cli');
 const program = new Command();
 
+/** Accepts an ISO date or a relative duration such as "30d" or "12h". */
+function parseExpiry(value: string): string {
+  const relative = /^(\d+)([hd])$/.exec(value);
+  if (relative) {
+    const hours = parseInt(relative[1], 10) * (relative[2] === 'd' ? 24 : 1);
+    return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid expiry "${value}", use e.g. 30d, 12h or 2025-12-31`);
+  }
+  return new Date(time).toISOString();
+}
+
+/** Loads the config, or prints its problems the way `config validate` does and exits. */
+function loadConfig(): OpenClawConfig {
+  try {
+    return ConfigManager.load();
+  } catch (err: any) {
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Calls the running gateway's REST API. Needed for anything that lives in
+ * the gateway process, such as linked channel sessions.
+ */
+async function gatewayRequest(
+  method: string,
+  apiPath: string,
+  body?: unknown
+): Promise<any> {
+  const config = ConfigManager.load();
+  const baseURL =
+    process.env.OPENCLAW_GATEWAY_URL || `http://127.0.0.1:${config.gateway.port}`;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = process.env.OPENCLAW_API_TOKEN || config.gateway.auth.token;
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  let response;
+  try {
+    response = await fetch(`${baseURL}${apiPath}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (err: any) {
+    throw new Error(`Cannot reach gateway at ${baseURL}: ${err.message}`);
+  }
+
+  const data = (await response.json().catch(() => ({}))) as any;
+  if (!response.ok) {
+    throw new Error(data.error || `Gateway returned ${response.status}`);
+  }
+  return data;
+}
+
 program
   .name('openclaw-cli')
   .description('OpenClaw CLI management tool')
@@ -16,7 +82,7 @@ program
   .command('status')
   .description('Show OpenClaw status')
   .action(async () => {
-    const config = ConfigManager.load();
+    const config = loadConfig();
     const llm = new LLMProvider(config.llm);
     const connected = await llm.testConnection();
 
@@ -38,6 +104,8 @@ program
   .command('health')
   .description('Check system health')
   .action(async () => {
+    // Exits with the config's problems before the check runs
+    loadConfig();
     const checker = new HealthChecker();
     const result = await checker.check();
 
@@ -56,7 +124,7 @@ program
   .description('Manage LLM models')
   .argument('[action]', 'Action: status, list')
   .action(async (action?: string) => {
-    const config = ConfigManager.load();
+    const config = loadConfig();
     const llm = new LLMProvider(config.llm);
 
     if (action === 'status' || !action) {
@@ -81,7 +149,7 @@ program
   .argument('[action]', 'Action: list, add, remove')
   .argument('[channel]', 'Channel name: telegram, whatsapp')
   .action(async (action?: string, channel?: string) => {
-    const config = ConfigManager.load();
+    const config = loadConfig();
 
     switch (action) {
       case 'list':
@@ -119,25 +187,263 @@ program
     }
   });
 
+program
+  .command('send')
+  .description('Send a message through a connected channel')
+  .argument('<channel>', 'Channel name, e.g. whatsapp')
+  .argument('<recipient>', 'Recipient id, e.g. a phone number in international format')
+  .argument('<text...>', 'Message text')
+  .action(async (channel: string, recipient: string, text: string[]) => {
+    try {
+      const result = await gatewayRequest(
+        'POST',
+        `/api/channels/${encodeURIComponent(channel)}/send`,
+        { recipient, text: text.join(' ') }
+      );
+      console.log(`Sent via ${result.channel} to ${result.recipient}`);
+      if (result.message_id) {
+        console.log(`Message id: ${result.message_id}`);
+      }
+    } catch (err: any) {
+      console.error(`Send failed: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('conversations')
+  .description('List, show and export conversations')
+  .argument('[action]', 'Action: list, show, export')
+  .argument('[id]', 'Conversation id (for show and export)')
+  .option('--channel <name>', 'Only list conversations from this channel')
+  .option('--sender <id>', 'Only list conversations from this sender')
+  .option('--limit <n>', 'Maximum number of conversations to list', '20')
+  .option('--format <format>', 'Export format: markdown, json', 'markdown')
+  .option('-o, --output <file>', 'Write the export to a file instead of stdout')
+  .action(async (action: string | undefined, id: string | undefined, options: any) => {
+    try {
+      switch (action) {
+        case 'list':
+        case undefined: {
+          const params = new URLSearchParams({ limit: options.limit });
+          if (options.channel) params.set('channel', options.channel);
+          if (options.sender) params.set('sender', options.sender);
+          const { conversations } = await gatewayRequest('GET', `/api/conversations?${params}`);
+          if (conversations.length === 0) {
+            console.log('No conversations');
+            break;
+          }
+          for (const c of conversations) {
+            const source = c.channel ? `${c.channel}/${c.sender || '?'}` : 'api';
+            console.log(
+              `${c.id}  ${source}  ${c.messageCount} messages  last active ${new Date(c.lastActivity).toLocaleString()}`
+            );
+          }
+          break;
+        }
+
+        case 'show':
+        case 'export': {
+          if (!id) {
+            console.log(`Usage: conversations ${action} <id>`);
+            return;
+          }
+          const transcript = await gatewayRequest(
+            'GET',
+            `/api/conversations/${encodeURIComponent(id)}`
+          );
+          const format = action === 'show' ? 'markdown' : options.format;
+          if (format !== 'markdown' && format !== 'json') {
+            console.error('Format must be markdown or json');
+            process.exit(1);
+          }
+          const output =
+            format === 'json'
+              ? JSON.stringify(transcript, null, 2)
+              : formatTranscriptMarkdown(transcript);
+          if (action === 'export' && options.output) {
+            fs.writeFileSync(options.output, output, 'utf-8');
+            console.log(`Exported ${id} to ${options.output}`);
+          } else {
+            console.log(output);
+          }
+          break;
+        }
+
+        default:
+          console.log('Usage: conversations [list|show|export] [id]');
+      }
+    } catch (err: any) {
+      console.error(`Request failed: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('usage')
+  .description('Show token usage totals, or one sender\'s usage against their quota')
+  .argument('[groupBy]', 'Group by: sender, conversation, channel, model, day, or "sender <id>"', 'sender')
+  .argument('[sender]', 'Sender id when groupBy is "sender"')
+  .option('--since <date>', 'First day to include (YYYY-MM-DD)')
+  .option('--until <date>', 'Last day to include (YYYY-MM-DD)')
+  .option('--channel <name>', 'Only count usage from this channel')
+  .option('--model <model>', 'Only count usage of this model')
+  .action(async (groupBy: string, sender: string | undefined, options: any) => {
+    try {
+      if (groupBy === 'sender' && sender) {
+        const result = await gatewayRequest('GET', `/api/usage/senders/${encodeURIComponent(sender)}`);
+        const limit = (value?: number) => (value === undefined ? 'unlimited' : value);
+        console.log(`Sender ${result.sender}`);
+        console.log(`  Today:      ${result.used.daily} tokens (quota: ${limit(result.quota.daily)})`);
+        console.log(`  This month: ${result.used.monthly} tokens (quota: ${limit(result.quota.monthly)})`);
+        if (result.exceeded) {
+          console.log(`  Over the ${result.exceeded.period} quota`);
+        }
+        return;
+      }
+
+      const params = new URLSearchParams({ group_by: groupBy });
+      if (options.since) params.set('since', options.since);
+      if (options.until) params.set('until', options.until);
+      if (options.channel) params.set('channel', options.channel);
+      if (options.model) params.set('model', options.model);
+      const { totals } = await gatewayRequest('GET', `/api/usage?${params}`);
+      if (totals.length === 0) {
+        console.log('No usage recorded');
+        return;
+      }
+      console.log(`Token usage by ${groupBy}:`);
+      for (const t of totals) {
+        console.log(
+          `  ${t.key}  prompt ${t.promptTokens}  completion ${t.completionTokens}  total ${t.totalTokens}  (${t.requests} requests)`
+        );
+      }
+    } catch (err: any) {
+      console.error(`Request failed: ${err.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('tokens')
+  .description('Manage API tokens')
+  .argument('[action]', 'Action: list, create, revoke')
+  .argument('[name]', 'Token name (for create and revoke)')
+  .option('--scopes <scopes>', `Comma-separated scopes: ${API_SCOPES.join(', ')}`, 'chat,status')
+  .option('--expires <when>', 'Expiry as a duration (30d, 12h) or a date')
+  .action(async (action: string | undefined, name: string | undefined, options: any) => {
+    const config = loadConfig();
+
+    switch (action) {
+      case 'list':
+      case undefined:
+        if (config.gateway.auth.token) {
+          console.log('  gateway  (legacy gateway.auth.token, all scopes)');
+        }
+        if (config.gateway.auth.tokens.length === 0) {
+          console.log('No named tokens configured');
+          break;
+        }
+        for (const t of config.gateway.auth.tokens) {
+          const expired = t.expiresAt && Date.parse(t.expiresAt) <= Date.now();
+          const expiry = t.expiresAt
+            ? `${expired ? 'expired' : 'expires'} ${t.expiresAt}`
+            : 'no expiry';
+          console.log(`  ${t.name}  [${t.scopes.join(', ')}]  ${expiry}`);
+        }
+        break;
+
+      case 'create': {
+        if (!name) {
+          console.log('Usage: tokens create <name> [--scopes chat,status] [--expires 30d]');
+          return;
+        }
+        if (config.gateway.auth.tokens.some((t) => t.name === name)) {
+          console.error(`A token named ${name} already exists`);
+          process.exit(1);
+        }
+        const scopes = String(options.scopes)
+          .split(',')
+          .map((s: string) => s.trim())
+          .filter(Boolean);
+        const invalid = scopes.filter((s: string) => !isValidScope(s));
+        if (invalid.length > 0 || scopes.length === 0) {
+          console.error(`Invalid scopes: ${invalid.join(', ') || '(none)'}. Valid: ${API_SCOPES.join(', ')}`);
+          process.exit(1);
+        }
+        let expiresAt: string | undefined;
+        try {
+          expiresAt = options.expires ? parseExpiry(options.expires) : undefined;
+        } catch (err: any) {
+          console.error(err.message);
+          process.exit(1);
+        }
+
+        const token = generateToken();
+        ConfigManager.updateFile((raw) => {
+          raw.gateway = raw.gateway || {};
+          raw.gateway.auth = raw.gateway.auth || {};
+          raw.gateway.auth.tokens = raw.gateway.auth.tokens || [];
+          raw.gateway.auth.tokens.push({
+            name,
+            hash: hashToken(token),
+            scopes,
+            createdAt: new Date().toISOString(),
+            expiresAt,
+          });
+        });
+        console.log(`Created token ${name} [${scopes.join(', ')}]${expiresAt ? `, expires ${expiresAt}` : ''}`);
+        console.log('Store it now, it will not be shown again:');
+        console.log(token);
+        break;
+      }
+
+      case 'revoke': {
+        if (!name) {
+          console.log('Usage: tokens revoke <name>');
+          return;
+        }
+        if (!config.gateway.auth.tokens.some((t) => t.name === name)) {
+          console.error(`No token named ${name}`);
+          process.exit(1);
+        }
+        ConfigManager.updateFile((raw) => {
+          raw.gateway.auth.tokens = raw.gateway.auth.tokens.filter(
+            (t: { name: string }) => t.name !== name
+          );
+        });
+        console.log(`Token ${name} revoked`);
+        break;
+      }
+
+      default:
+        console.log('Usage: tokens [list|create|revoke] [name]');
+    }
+  });
+
 program
   .command('config')
   .description('Manage configuration')
-  .argument('[action]', 'Action: show, path')
+  .argument('[action]', 'Action: show, path, validate')
   .action(async (action?: string) => {
-    const config = ConfigManager.load();
-
     switch (action) {
       case 'path':
         console.log(ConfigManager.getConfigPath() || 'No config file found');
         break;
+      case 'validate': {
+        const { configPath, issues } = ConfigManager.validate();
+        const source = configPath || 'defaults (no config file found)';
+        if (issues.length > 0) {
+          console.error(`Invalid configuration in ${source}:`);
+          console.error(formatConfigIssues(issues));
+          process.exit(1);
+        }
+        console.log(`Config OK: ${source}`);
+        break;
+      }
       case 'show':
       default: {
-        const display = { ...config };
-        // Mask token for security
-        if (display.gateway?.auth?.token) {
-          display.gateway.auth.token = '***hidden***';
-        }
-        console.log(JSON.stringify(display, null, 2));
+        console.log(JSON.stringify(ConfigManager.redact(loadConfig()), null, 2));
         break;
       }
     }
@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { ConfigIssue, formatConfigIssues, validateConfig } from './configSchema';
+import { ResolvedSecret, redactSecrets, resolveReferences, restoreReferences } from './secrets';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.create('config');
@@ -9,7 +11,9 @@ export interface OpenClawConfig {
     bind: string;
     port: number;
     auth: {
+      /** Legacy single token with full access. */
       token: string;
+      tokens: ApiTokenConfig[];
     };
   };
   llm: {
@@ -20,6 +24,14 @@ export interface OpenClawConfig {
     maxTokens: number;
     input: string;
     apiKey?: string;
+    /** "native" or "prompted" tool calling by model name (or "*"). */
+    toolCalling?: Record<string, 'native' | 'prompted'>;
+    /** Time to wait for a response to start, in ms. */
+    timeoutMs?: number;
+    /** Retries of timeouts, network errors, 408, 429 and 5xx responses. */
+    retries?: { maxAttempts?: number; initialDelayMs?: number; maxDelayMs?: number };
+    /** Tried in order when the primary backend fails; unset fields are inherited. */
+    fallbacks?: Array<{ provider?: string; baseURL?: string; model: string; apiKey?: string }>;
   };
   tools: {
     bash: {
@@ -42,25 +54,126 @@ export interface OpenClawConfig {
     };
   };
   channels: ChannelConfig[];
+  agents: Record<string, AgentProfileConfig>;
+  webhooks: WebhookConfig[];
+  scheduler: {
+    enabled: boolean;
+    tickInterval: number;
+  };
   memory: {
     enabled: boolean;
     type: string;
   };
+  conversations: {
+    type: string;
+  };
+  compaction: {
+    enabled: boolean;
+    maxPromptTokens: number;
+    keepRecentMessages: number;
+  };
+  audit: {
+    enabled: boolean;
+    retentionDays: number;
+  };
+  usage: {
+    enabled: boolean;
+    /** Token limits per channel sender; unset limits are unlimited. */
+    quotas: {
+      daily?: number;
+      monthly?: number;
+      senders?: Record<string, { daily?: number; monthly?: number }>;
+    };
+  };
+  rateLimits: {
+    /** Requests per API token (or client IP when no token is set). */
+    api: { windowMs: number; max: number };
+    /** Messages per channel sender. */
+    channelSenders: { windowMs: number; max: number };
+    /** Agent runs admitted at once across the gateway, including queued ones. */
+    maxConcurrentRuns: number;
+  };
+  /** Slash commands on channels. */
+  commands: {
+    enabled: boolean;
+    /** Sender ids allowed to run admin commands. */
+    admins: string[];
+    /** "everyone", "admin" or "disabled" per command name, overriding its default. */
+    permissions: Record<string, 'everyone' | 'admin' | 'disabled'>;
+  };
+  /** Budgets for a single agent run; agent profiles may override them. */
+  runLimits: {
+    maxIterations: number;
+    /** Wall-clock limit in ms; 0 for none. */
+    maxRunMs: number;
+    maxToolResultChars: number;
+    /** Identical calls (same tool and arguments) allowed per run. */
+    maxRepeatedCalls: number;
+    maxConsecutiveErrors: number;
+    /** Calls per run by tool name; "*" for tools not listed. */
+    toolCalls: Record<string, number>;
+  };
+  approval: {
+    enabled: boolean;
+    timeout: number;
+    rules: Array<{
+      tool: string;
+      argument?: string;
+      pattern?: string;
+    }>;
+  };
+}
+
+export interface ApiTokenConfig {
+  name: string;
+  /** SHA-256 of the token; the token itself is only shown when it is created. */
+  hash: string;
+  scopes: string[];
+  createdAt: string;
+  expiresAt?: string;
 }
 
 export interface ChannelConfig {
   type: string;
   name: string;
   autoStart?: boolean;
+  /** Agent profile that handles this channel (defaults to "default"). */
+  agent?: string;
+  /** Per-sender agent profile overrides, keyed by sender id. */
+  senderAgents?: Record<string, string>;
   config: Record<string, unknown>;
 }
 
+export interface WebhookConfig {
+  id: string;
+  secret: string;
+  /** "token" (default) compares the secret directly; "hmac-sha256" verifies a body signature. */
+  signature?: 'token' | 'hmac-sha256';
+  signatureHeader?: string;
+  promptTemplate: string;
+  conversationId?: string;
+  agent?: string;
+  /** Channel and recipient that receive the agent's reply. */
+  channel?: string;
+  recipient?: string;
+}
+
+export interface AgentProfileConfig {
+  systemPrompt?: string;
+  llm?: Partial<OpenClawConfig['llm']>;
+  /** Names of the tools this profile may use; all tools when omitted. */
+  tools?: string[];
+  memoryNamespace?: string;
+  runLimits?: Partial<OpenClawConfig['runLimits']>;
+}
+
 const DEFAULT_CONFIG: OpenClawConfig = {
   gateway: {
     bind: 'lan',
     port: 18789,
     auth: {
       token: '',
+      tokens: [],
     },
   },
   llm: {
@@ -86,10 +199,63 @@ const DEFAULT_CONFIG: OpenClawConfig = {
     },
   },
   channels: [],
+  agents: {},
+  webhooks: [],
+  scheduler: {
+    enabled: true,
+    tickInterval: 30000,
+  },
   memory: {
     enabled: true,
     type: 'local',
   },
+  conversations: {
+    type: 'file',
+  },
+  compaction: {
+    enabled: true,
+    maxPromptTokens: 6000,
+    keepRecentMessages: 8,
+  },
+  audit: {
+    enabled: true,
+    retentionDays: 90,
+  },
+  usage: {
+    enabled: true,
+    quotas: {},
+  },
+  rateLimits: {
+    api: { windowMs: 60000, max: 60 },
+    channelSenders: { windowMs: 60000, max: 10 },
+    maxConcurrentRuns: 4,
+  },
+  commands: {
+    enabled: true,
+    admins: [],
+    permissions: {},
+  },
+  runLimits: {
+    maxIterations: 10,
+    maxRunMs: 900000,
+    maxToolResultChars: 4000,
+    maxRepeatedCalls: 2,
+    maxConsecutiveErrors: 3,
+    toolCalls: {},
+  },
+  approval: {
+    enabled: true,
+    timeout: 300000,
+    rules: [
+      {
+        tool: 'bash',
+        argument: 'command',
+        pattern: '\\b(rm|rmdir|mv|dd|mkfs|shred|truncate|chmod|chown|kill|pkill|killall|shutdown|reboot)\\b',
+      },
+      { tool: 'write_file' },
+      { tool: 'claude_code' },
+    ],
+  },
 };
 
 export class ConfigManager {
@@ -98,28 +264,83 @@ export class ConfigManager {
     path.join(process.cwd(), 'openclaw.json'),
     path.join(process.env.HOME || '', '.openclaw', 'openclaw.json'),
   ];
+  // References resolved for each loaded config, so save() and redact() can find them
+  private static secrets = new WeakMap<OpenClawConfig, ResolvedSecret[]>();
 
+  /** Loads the config and throws, listing every problem, when it is invalid. */
   static load(): OpenClawConfig {
+    const { config, configPath, issues } = this.read();
+    if (issues.length > 0) {
+      throw new Error(
+        `Invalid configuration${configPath ? ` in ${configPath}` : ''}:\n${formatConfigIssues(issues)}`
+      );
+    }
+    return config;
+  }
+
+  /** Checks the config without throwing, for `config validate`. */
+  static validate(): { configPath: string | null; issues: ConfigIssue[] } {
+    const { configPath, issues } = this.read();
+    return { configPath, issues };
+  }
+
+  private static read(): {
+    config: OpenClawConfig;
+    configPath: string | null;
+    issues: ConfigIssue[];
+  } {
+    const configPath = this.getConfigPath();
     let fileConfig: Partial<OpenClawConfig> = {};
+    const resolved: ResolvedSecret[] = [];
+    const issues: ConfigIssue[] = [];
 
-    for (const configPath of this.configPaths) {
-      if (fs.existsSync(configPath)) {
-        try {
-          const raw = fs.readFileSync(configPath, 'utf-8');
-          fileConfig = JSON.parse(raw);
-          logger.info(`Loaded config from ${configPath}`);
-          break;
-        } catch (err) {
-          logger.warn(`Failed to parse config at ${configPath}: ${err}`);
-        }
+    if (configPath) {
+      try {
+        fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      } catch (err: any) {
+        return {
+          config: DEFAULT_CONFIG,
+          configPath,
+          issues: [{ path: '', message: `not valid JSON: ${err.message}` }],
+        };
+      }
+      if (!fileConfig || typeof fileConfig !== 'object' || Array.isArray(fileConfig)) {
+        return {
+          config: DEFAULT_CONFIG,
+          configPath,
+          issues: [{ path: '', message: 'the file must contain a JSON object' }],
+        };
       }
+      fileConfig = resolveReferences(fileConfig, resolved, issues) as Partial<OpenClawConfig>;
+      logger.info(`Loaded config from ${configPath}`);
     }
 
     const config = this.merge(DEFAULT_CONFIG, fileConfig);
+    this.applyEnvironment(config, resolved);
+    this.secrets.set(config, resolved);
+    return { config, configPath, issues: [...issues, ...validateConfig(config)] };
+  }
+
+  /**
+   * The fixed environment overrides. A secret taken from the environment is
+   * recorded with the file's own value at that path (its reference, plain
+   * text or the default) as the reference, so saving writes back what the
+   * file had and the override never reaches it.
+   */
+  private static applyEnvironment(config: OpenClawConfig, resolved: ResolvedSecret[]): void {
+    const overrideSecret = (path: string, current: string | undefined, value: string): string => {
+      const index = resolved.findIndex((r) => r.path === path);
+      const reference = index >= 0 ? resolved.splice(index, 1)[0].reference : current;
+      resolved.push({ path, reference, value });
+      return value;
+    };
 
-    // Override from environment variables
     if (process.env.OPENCLAW_GATEWAY_TOKEN) {
-      config.gateway.auth.token = process.env.OPENCLAW_GATEWAY_TOKEN;
+      config.gateway.auth.token = overrideSecret(
+        'gateway.auth.token',
+        config.gateway.auth.token,
+        process.env.OPENCLAW_GATEWAY_TOKEN
+      );
     }
     if (process.env.OPENCLAW_GATEWAY_BIND) {
       config.gateway.bind = process.env.OPENCLAW_GATEWAY_BIND;
@@ -141,22 +362,41 @@ export class ConfigManager {
       config.llm.model = process.env.OLLAMA_MODEL;
     }
     if (process.env.LLM_API_KEY) {
-      config.llm.apiKey = process.env.LLM_API_KEY;
+      config.llm.apiKey = overrideSecret('llm.apiKey', config.llm.apiKey, process.env.LLM_API_KEY);
     }
+  }
 
-    return config;
+  /** A copy for display, with resolved references and secret settings hidden. */
+  static redact(config: OpenClawConfig): OpenClawConfig {
+    return redactSecrets(config, this.secrets.get(config) || []);
   }
 
+  /** Writes the config, putting ${VAR} and file: references back in place of their values. */
   static save(config: OpenClawConfig, configPath?: string): void {
     const targetPath = configPath || this.configPaths[0];
     const dir = path.dirname(targetPath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
-    fs.writeFileSync(targetPath, JSON.stringify(config, null, 2), 'utf-8');
+    const output = restoreReferences(config, this.secrets.get(config) || []);
+    fs.writeFileSync(targetPath, JSON.stringify(output, null, 2), 'utf-8');
     logger.info(`Config saved to ${targetPath}`);
   }
 
+  /**
+   * Edits the config file as written, without defaults or environment
+   * overrides, so that only the changed keys differ. Returns the file path.
+   */
+  static updateFile(mutate: (raw: any) => void): string {
+    const targetPath = this.getConfigPath() || this.configPaths[0];
+    const raw = fs.existsSync(targetPath)
+      ? JSON.parse(fs.readFileSync(targetPath, 'utf-8'))
+      : {};
+    mutate(raw);
+    this.save(raw, targetPath);
+    return targetPath;
+  }
+
   static getConfigPath(): string | null {
     for (const configPath of this.configPaths) {
       if (fs.existsSync(configPath)) {
@@ -0,0 +1,337 @@
+/**
+ * Shape of openclaw.json, checked after defaults and environment overrides
+ * are applied. Objects are closed: a key the schema does not know is
+ * reported, with a suggestion when it looks like a typo of a known one.
+ */
+
+type Schema =
+  | { kind: 'string'; values?: readonly string[]; nonEmpty?: boolean; regex?: boolean }
+  | { kind: 'number'; min?: number; max?: number; integer?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'array'; items: Schema }
+  | { kind: 'object'; fields: Record<string, Schema>; optional: Set<string> }
+  | { kind: 'record'; values: Schema };
+
+export interface ConfigIssue {
+  /** Dotted path of the offending value, e.g. "approval.rules[0].tool". */
+  path: string;
+  message: string;
+}
+
+function str(
+  options: { values?: readonly string[]; nonEmpty?: boolean; regex?: boolean } = {}
+): Schema {
+  return { kind: 'string', ...options };
+}
+
+function num(options: { min?: number; max?: number; integer?: boolean } = {}): Schema {
+  return { kind: 'number', ...options };
+}
+
+function bool(): Schema {
+  return { kind: 'boolean' };
+}
+
+function list(items: Schema): Schema {
+  return { kind: 'array', items };
+}
+
+/** An object with arbitrary keys, e.g. per-sender settings. */
+function map(values: Schema): Schema {
+  return { kind: 'record', values };
+}
+
+/** Fields whose name ends in "?" may be omitted. */
+function obj(fields: Record<string, Schema>): Schema {
+  const clean: Record<string, Schema> = {};
+  const optional = new Set<string>();
+  for (const [key, schema] of Object.entries(fields)) {
+    const name = key.endsWith('?') ? key.slice(0, -1) : key;
+    if (name !== key) optional.add(name);
+    clean[name] = schema;
+  }
+  return { kind: 'object', fields: clean, optional };
+}
+
+const wholeNumber = () => num({ min: 0, integer: true });
+const quotaLimits = () => obj({ 'daily?': wholeNumber(), 'monthly?': wholeNumber() });
+const rateLimitRule = () =>
+  obj({ windowMs: num({ min: 1, integer: true }), max: wholeNumber() });
+
+const llmFields = {
+  provider: str({ nonEmpty: true }),
+  baseURL: str({ nonEmpty: true }),
+  model: str({ nonEmpty: true }),
+  temperature: num({ min: 0, max: 2 }),
+  maxTokens: num({ min: 1, integer: true }),
+  input: str(),
+  'apiKey?': str(),
+  'toolCalling?': map(str({ values: ['native', 'prompted'] })),
+  'timeoutMs?': num({ min: 1000, integer: true }),
+  'retries?': obj({
+    'maxAttempts?': num({ min: 1, integer: true }),
+    'initialDelayMs?': wholeNumber(),
+    'maxDelayMs?': wholeNumber(),
+  }),
+  'fallbacks?': list(
+    obj({
+      'provider?': str({ nonEmpty: true }),
+      'baseURL?': str({ nonEmpty: true }),
+      model: str({ nonEmpty: true }),
+      'apiKey?': str(),
+    })
+  ),
+};
+
+const runLimitFields = {
+  maxIterations: num({ min: 1, integer: true }),
+  maxRunMs: wholeNumber(),
+  maxToolResultChars: num({ min: 100, integer: true }),
+  maxRepeatedCalls: num({ min: 1, integer: true }),
+  maxConsecutiveErrors: wholeNumber(),
+  toolCalls: map(wholeNumber()),
+};
+
+// Agent profiles may override any subset of the llm settings and run limits
+const optionalFields = (fields: Record<string, Schema>) =>
+  Object.fromEntries(
+    Object.entries(fields).map(([key, schema]) => [key.endsWith('?') ? key : `${key}?`, schema])
+  );
+
+export const CONFIG_SCHEMA = obj({
+  gateway: obj({
+    bind: str({ values: ['lan', 'loopback'] }),
+    port: num({ min: 1, max: 65535, integer: true }),
+    auth: obj({
+      token: str(),
+      tokens: list(
+        obj({
+          name: str({ nonEmpty: true }),
+          hash: str({ nonEmpty: true }),
+          scopes: list(str()),
+          createdAt: str(),
+          'expiresAt?': str(),
+        })
+      ),
+    }),
+  }),
+  llm: obj(llmFields),
+  tools: obj({
+    bash: obj({
+      enabled: bool(),
+      timeout: wholeNumber(),
+      'allowedCommands?': list(str()),
+      'deniedCommands?': list(str()),
+    }),
+    browser: obj({ enabled: bool(), 'headless?': bool(), 'timeout?': wholeNumber() }),
+    file: obj({ enabled: bool() }),
+    'claudeCode?': obj({ enabled: bool(), 'timeout?': wholeNumber() }),
+  }),
+  channels: list(
+    obj({
+      type: str({ values: ['whatsapp'] }),
+      'name?': str({ nonEmpty: true }),
+      'autoStart?': bool(),
+      'agent?': str(),
+      'senderAgents?': map(str()),
+      config: obj({
+        authDir: str({ nonEmpty: true }),
+        'allowedSenders?': list(str()),
+        'replyOnlyToDirectMessages?': bool(),
+      }),
+    })
+  ),
+  agents: map(
+    obj({
+      'systemPrompt?': str(),
+      'llm?': obj(optionalFields(llmFields)),
+      'tools?': list(str()),
+      'memoryNamespace?': str(),
+      'runLimits?': obj(optionalFields(runLimitFields)),
+    })
+  ),
+  webhooks: list(
+    obj({
+      id: str({ nonEmpty: true }),
+      secret: str({ nonEmpty: true }),
+      'signature?': str({ values: ['token', 'hmac-sha256'] }),
+      'signatureHeader?': str(),
+      promptTemplate: str({ nonEmpty: true }),
+      'conversationId?': str(),
+      'agent?': str(),
+      'channel?': str(),
+      'recipient?': str(),
+    })
+  ),
+  scheduler: obj({ enabled: bool(), tickInterval: num({ min: 1000, integer: true }) }),
+  memory: obj({ enabled: bool(), type: str({ values: ['local'] }) }),
+  conversations: obj({ type: str({ values: ['file', 'memory'] }) }),
+  compaction: obj({
+    enabled: bool(),
+    maxPromptTokens: num({ min: 1, integer: true }),
+    keepRecentMessages: wholeNumber(),
+  }),
+  audit: obj({ enabled: bool(), retentionDays: wholeNumber() }),
+  usage: obj({
+    enabled: bool(),
+    quotas: obj({
+      'daily?': wholeNumber(),
+      'monthly?': wholeNumber(),
+      'senders?': map(quotaLimits()),
+    }),
+  }),
+  rateLimits: obj({
+    api: rateLimitRule(),
+    channelSenders: rateLimitRule(),
+    maxConcurrentRuns: wholeNumber(),
+  }),
+  commands: obj({
+    enabled: bool(),
+    admins: list(str()),
+    permissions: map(str({ values: ['everyone', 'admin', 'disabled'] })),
+  }),
+  runLimits: obj(runLimitFields),
+  approval: obj({
+    enabled: bool(),
+    timeout: num({ min: 1, integer: true }),
+    rules: list(
+      obj({ tool: str({ nonEmpty: true }), 'argument?': str(), 'pattern?': str({ regex: true }) })
+    ),
+  }),
+});
+
+export function validateConfig(config: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  check(CONFIG_SCHEMA, config, '', issues);
+  return issues;
+}
+
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues.map((i) => `  - ${i.path || '(root)'}: ${i.message}`).join('\n');
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'an object';
+  return `${typeof value} ${String(value)}`;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function check(schema: Schema, value: unknown, path: string, issues: ConfigIssue[]): void {
+  const fail = (message: string): void => {
+    issues.push({ path, message });
+  };
+
+  switch (schema.kind) {
+    case 'string':
+      if (typeof value !== 'string') return fail(`expected a string, got ${describe(value)}`);
+      if (schema.nonEmpty && !value) return fail('must not be empty');
+      if (schema.values && !schema.values.includes(value)) {
+        return fail(
+          `expected one of ${schema.values.map((v) => `"${v}"`).join(', ')}, got ${describe(value)}`
+        );
+      }
+      if (schema.regex) {
+        try {
+          new RegExp(value, 'i');
+        } catch (err: any) {
+          return fail(`not a valid regular expression: ${err.message}`);
+        }
+      }
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return fail(`expected a number, got ${describe(value)}`);
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return fail(`expected a whole number, got ${value}`);
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return fail(`must be at least ${schema.min}, got ${value}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return fail(`must be at most ${schema.max}, got ${value}`);
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') fail(`expected true or false, got ${describe(value)}`);
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) return fail(`expected an array, got ${describe(value)}`);
+      value.forEach((item, i) => check(schema.items, item, `${path}[${i}]`, issues));
+      return;
+
+    case 'record':
+      if (!isPlainObject(value)) return fail(`expected an object, got ${describe(value)}`);
+      for (const [key, item] of Object.entries(value)) {
+        check(schema.values, item, join(path, key), issues);
+      }
+      return;
+
+    case 'object': {
+      if (!isPlainObject(value)) return fail(`expected an object, got ${describe(value)}`);
+      const known = Object.keys(schema.fields);
+      for (const key of Object.keys(value)) {
+        if (schema.fields[key]) continue;
+        const suggestion = closest(key, known);
+        issues.push({
+          path: join(path, key),
+          message: `unknown setting${suggestion ? `; did you mean "${suggestion}"?` : ''}`,
+        });
+      }
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const fieldValue = value[key];
+        if (fieldValue === undefined) {
+          if (!schema.optional.has(key)) {
+            issues.push({ path: join(path, key), message: 'is required' });
+          }
+          continue;
+        }
+        check(fieldSchema, fieldValue, join(path, key), issues);
+      }
+      return;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The known key within edit distance 2 of the given one, if any. */
+function closest(key: string, known: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = 3;
+  for (const candidate of known) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
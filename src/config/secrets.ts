@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import { ConfigIssue } from './configSchema';
+
+/**
+ * References that keep secrets out of openclaw.json. Any string value may
+ * contain ${ENV_VAR} placeholders ($${...} for a literal "${"), and a value
+ * of the form file:/run/secrets/name is replaced by that file's contents
+ * without the trailing newline.
+ */
+
+const ENV_PATTERN = /\$(\$?)\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const FILE_PREFIX = 'file:';
+const HIDDEN = '***hidden***';
+
+// Settings that hold a secret even when written in plain text
+const SECRET_KEYS = new Set(['token', 'apiKey', 'secret']);
+
+export interface ResolvedSecret {
+  /** Dotted path of the value, in the same form as ConfigIssue.path. */
+  path: string;
+  /**
+   * The value as written, e.g. "${LLM_API_KEY}"; undefined for an
+   * environment override of a setting the file does not have.
+   */
+  reference: string | undefined;
+  value: string;
+}
+
+function isReference(value: string): boolean {
+  return value.startsWith(FILE_PREFIX) || value.includes('${');
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function resolveString(value: string, path: string, issues: ConfigIssue[]): string {
+  if (value.startsWith(FILE_PREFIX)) {
+    const file = value.slice(FILE_PREFIX.length);
+    try {
+      return fs.readFileSync(file, 'utf-8').replace(/\r?\n$/, '');
+    } catch (err: any) {
+      issues.push({ path, message: `cannot read secret file ${file}: ${err.code || err.message}` });
+      return '';
+    }
+  }
+
+  return value.replace(ENV_PATTERN, (match, escaped: string, name: string) => {
+    if (escaped) return match.slice(1);
+    const env = process.env[name];
+    if (env === undefined) {
+      issues.push({ path, message: `environment variable ${name} is not set` });
+      return '';
+    }
+    return env;
+  });
+}
+
+/**
+ * Returns a copy of the raw file config with every reference replaced by
+ * its value. Each replacement is recorded in resolved; references that
+ * cannot be resolved are reported in issues and become empty strings.
+ */
+export function resolveReferences(
+  value: unknown,
+  resolved: ResolvedSecret[],
+  issues: ConfigIssue[],
+  path = ''
+): unknown {
+  if (typeof value === 'string') {
+    if (!isReference(value)) return value;
+    const result = resolveString(value, path, issues);
+    if (result !== value) {
+      resolved.push({ path, reference: value, value: result });
+    }
+    return result;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => resolveReferences(item, resolved, issues, `${path}[${i}]`));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = resolveReferences(item, resolved, issues, join(path, key));
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Puts references back in place of their values before a config is written,
+ * so a resolved secret never reaches the file. Only a value still at the
+ * path it was resolved from is restored; the same text elsewhere is a
+ * setting of its own and is written as it is.
+ */
+export function restoreReferences(
+  value: unknown,
+  resolved: ResolvedSecret[],
+  path = ''
+): unknown {
+  if (typeof value === 'string') {
+    const match = resolved.find((r) => r.path === path && r.value === value);
+    return match ? match.reference : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => restoreReferences(item, resolved, `${path}[${i}]`));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = restoreReferences(item, resolved, join(path, key));
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Returns a copy for display with every resolved reference and every
+ * token, apiKey or secret setting hidden.
+ */
+export function redactSecrets<T>(value: T, resolved: ResolvedSecret[]): T {
+  const paths = new Set(resolved.map((r) => r.path));
+  const redact = (item: unknown, path: string, key: string): unknown => {
+    if (typeof item === 'string') {
+      return item && (paths.has(path) || SECRET_KEYS.has(key)) ? HIDDEN : item;
+    }
+    if (Array.isArray(item)) {
+      return item.map((entry, i) => redact(entry, `${path}[${i}]`, ''));
+    }
+    if (item && typeof item === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [k, entry] of Object.entries(item)) {
+        result[k] = redact(entry, join(path, k), k);
+      }
+      return result;
+    }
+    return item;
+  };
+  return redact(value, '', '') as T;
+}
@@ -0,0 +1,328 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatMessage } from '../llm/llmProvider';
+import { Logger } from '../utils/logger';
+import { DebouncedSave, writeFileAtomic } from '../utils/persist';
+
+const logger = Logger.create('conversations');
+
+// index.json changes with every message; coalesce its rewrites
+const INDEX_SAVE_DELAY_MS = 1000;
+
+export interface ConversationStoreConfig {
+  type: string;
+}
+
+/** Where a conversation's messages come from; recorded on every run. */
+export interface ConversationDetails {
+  agent?: string;
+  channel?: string;
+  sender?: string;
+  /** Model chosen for this conversation instead of the agent's default; '' clears it. */
+  model?: string;
+}
+
+export interface ConversationInfo extends ConversationDetails {
+  id: string;
+  createdAt: number;
+  lastActivity: number;
+  messageCount: number;
+}
+
+/**
+ * The LLM context of a compacted conversation: head (the system prompt and
+ * a summary of the older turns) followed by the transcript from offset on.
+ */
+interface CompactedContext {
+  head: ChatMessage[];
+  offset: number;
+}
+
+export interface ConversationStore {
+  /** The full transcript; compaction never changes it. */
+  load(conversationId: string): ChatMessage[];
+  /** The transcript as the LLM sees it, with compacted turns replaced by their summary. */
+  loadContext(conversationId: string): ChatMessage[];
+  append(conversationId: string, messages: ChatMessage[]): void;
+  /**
+   * Records a compaction: from now on the context is head followed by the
+   * last `keep` messages of the transcript and whatever is appended later.
+   */
+  saveContext(conversationId: string, head: ChatMessage[], keep: number): void;
+  delete(conversationId: string): void;
+  updateDetails(conversationId: string, details: ConversationDetails): void;
+  getInfo(conversationId: string): ConversationInfo | null;
+  /** All conversations, most recently active first. */
+  list(): ConversationInfo[];
+}
+
+function newInfo(conversationId: string, now: number): ConversationInfo {
+  return { id: conversationId, createdAt: now, lastActivity: now, messageCount: 0 };
+}
+
+function mergeDetails(info: ConversationInfo, details: ConversationDetails): void {
+  if (details.agent) info.agent = details.agent;
+  if (details.channel) info.channel = details.channel;
+  if (details.sender) info.sender = details.sender;
+  if (details.model !== undefined) {
+    if (details.model) info.model = details.model;
+    else delete info.model;
+  }
+}
+
+function applyContext(transcript: ChatMessage[], context: CompactedContext | undefined): ChatMessage[] {
+  return context ? [...context.head, ...transcript.slice(context.offset)] : transcript;
+}
+
+function sortByActivity(infos: ConversationInfo[]): ConversationInfo[] {
+  return infos.sort((a, b) => b.lastActivity - a.lastActivity);
+}
+
+export function createConversationStore(
+  config: ConversationStoreConfig,
+  baseDir: string
+): ConversationStore {
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryConversationStore();
+    case 'file':
+      return new FileConversationStore(path.join(baseDir, 'conversations'));
+    default:
+      logger.warn(`Unknown conversation store type: ${config.type}, using file`);
+      return new FileConversationStore(path.join(baseDir, 'conversations'));
+  }
+}
+
+/**
+ * Keeps conversations only for the lifetime of the process.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, ChatMessage[]> = new Map();
+  private contexts: Map<string, CompactedContext> = new Map();
+  private infos: Map<string, ConversationInfo> = new Map();
+
+  load(conversationId: string): ChatMessage[] {
+    return [...(this.conversations.get(conversationId) || [])];
+  }
+
+  loadContext(conversationId: string): ChatMessage[] {
+    return applyContext(this.load(conversationId), this.contexts.get(conversationId));
+  }
+
+  append(conversationId: string, messages: ChatMessage[]): void {
+    const existing = this.conversations.get(conversationId) || [];
+    existing.push(...messages);
+    this.conversations.set(conversationId, existing);
+    this.touch(conversationId, existing.length);
+  }
+
+  saveContext(conversationId: string, head: ChatMessage[], keep: number): void {
+    const length = this.conversations.get(conversationId)?.length || 0;
+    this.contexts.set(conversationId, { head: [...head], offset: Math.max(0, length - keep) });
+  }
+
+  delete(conversationId: string): void {
+    this.conversations.delete(conversationId);
+    this.contexts.delete(conversationId);
+    this.infos.delete(conversationId);
+  }
+
+  updateDetails(conversationId: string, details: ConversationDetails): void {
+    const info = this.infos.get(conversationId) || newInfo(conversationId, Date.now());
+    mergeDetails(info, details);
+    this.infos.set(conversationId, info);
+  }
+
+  getInfo(conversationId: string): ConversationInfo | null {
+    const info = this.infos.get(conversationId);
+    return info ? { ...info } : null;
+  }
+
+  list(): ConversationInfo[] {
+    return sortByActivity(Array.from(this.infos.values()).map((i) => ({ ...i })));
+  }
+
+  private touch(conversationId: string, messageCount: number): void {
+    const now = Date.now();
+    const info = this.infos.get(conversationId) || newInfo(conversationId, now);
+    info.lastActivity = now;
+    info.messageCount = messageCount;
+    this.infos.set(conversationId, info);
+  }
+}
+
+/**
+ * Stores each conversation as a JSONL file (one message per line) so that
+ * appends are cheap and a crash mid-write only loses the last line. The
+ * file is never rewritten; a compacted context lives in <id>.context.json.
+ * Listing metadata lives in index.json next to the transcripts.
+ */
+export class FileConversationStore implements ConversationStore {
+  private storePath: string;
+  private indexPath: string;
+  private index: Map<string, ConversationInfo> = new Map();
+  private indexSave = new DebouncedSave(() => this.saveIndex(), INDEX_SAVE_DELAY_MS);
+
+  constructor(storePath: string) {
+    this.storePath = storePath;
+    this.indexPath = path.join(storePath, 'index.json');
+    if (!fs.existsSync(this.storePath)) {
+      fs.mkdirSync(this.storePath, { recursive: true });
+    }
+    this.loadIndex();
+  }
+
+  load(conversationId: string): ChatMessage[] {
+    const filePath = this.getFilePath(conversationId);
+    if (!fs.existsSync(filePath)) return [];
+
+    const messages: ChatMessage[] = [];
+    try {
+      const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          messages.push(JSON.parse(line));
+        } catch {
+          logger.warn(`Skipping corrupt line in conversation ${conversationId}`);
+        }
+      }
+      logger.debug(`Loaded ${messages.length} messages for conversation ${conversationId}`);
+    } catch (err) {
+      logger.warn(`Failed to load conversation ${conversationId}: ${err}`);
+    }
+    return messages;
+  }
+
+  loadContext(conversationId: string): ChatMessage[] {
+    return applyContext(this.load(conversationId), this.readContext(conversationId));
+  }
+
+  append(conversationId: string, messages: ChatMessage[]): void {
+    if (messages.length === 0) return;
+    const lines = messages.map((m) => JSON.stringify(m)).join('\n') + '\n';
+    try {
+      fs.appendFileSync(this.getFilePath(conversationId), lines, 'utf-8');
+    } catch (err) {
+      logger.error(`Failed to persist conversation ${conversationId}: ${err}`);
+      return;
+    }
+    const info = this.index.get(conversationId);
+    this.touch(conversationId, (info?.messageCount || 0) + messages.length);
+  }
+
+  saveContext(conversationId: string, head: ChatMessage[], keep: number): void {
+    // Offsets count the lines load() returns, so measure the transcript the same way
+    const length = this.load(conversationId).length;
+    const context: CompactedContext = { head, offset: Math.max(0, length - keep) };
+    try {
+      writeFileAtomic(this.getContextPath(conversationId), JSON.stringify(context));
+    } catch (err) {
+      logger.error(`Failed to save compacted context of ${conversationId}: ${err}`);
+    }
+  }
+
+  delete(conversationId: string): void {
+    const filePath = this.getFilePath(conversationId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      logger.info(`Deleted conversation ${conversationId}`);
+    }
+    const contextPath = this.getContextPath(conversationId);
+    if (fs.existsSync(contextPath)) {
+      fs.unlinkSync(contextPath);
+    }
+    if (this.index.delete(conversationId)) {
+      this.indexSave.schedule();
+    }
+  }
+
+  updateDetails(conversationId: string, details: ConversationDetails): void {
+    const info = this.index.get(conversationId) || newInfo(conversationId, Date.now());
+    mergeDetails(info, details);
+    this.index.set(conversationId, info);
+    this.indexSave.schedule();
+  }
+
+  getInfo(conversationId: string): ConversationInfo | null {
+    const info = this.index.get(conversationId);
+    return info ? { ...info } : null;
+  }
+
+  list(): ConversationInfo[] {
+    return sortByActivity(Array.from(this.index.values()).map((i) => ({ ...i })));
+  }
+
+  private touch(conversationId: string, messageCount: number): void {
+    const now = Date.now();
+    const info = this.index.get(conversationId) || newInfo(conversationId, now);
+    info.lastActivity = now;
+    info.messageCount = messageCount;
+    this.index.set(conversationId, info);
+    this.indexSave.schedule();
+  }
+
+  private loadIndex(): void {
+    if (fs.existsSync(this.indexPath)) {
+      try {
+        const infos: ConversationInfo[] = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'));
+        for (const info of infos) {
+          this.index.set(info.id, info);
+        }
+      } catch (err) {
+        logger.warn(`Failed to load conversation index, rebuilding it: ${err}`);
+      }
+    }
+
+    // Transcripts written before the index existed (or after it was lost)
+    let added = 0;
+    for (const file of fs.readdirSync(this.storePath)) {
+      if (!file.endsWith('.jsonl')) continue;
+      const conversationId = decodeURIComponent(file.slice(0, -'.jsonl'.length));
+      if (this.index.has(conversationId)) continue;
+
+      const filePath = path.join(this.storePath, file);
+      const stat = fs.statSync(filePath);
+      const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter((l) => l.trim());
+      this.index.set(conversationId, {
+        id: conversationId,
+        createdAt: Math.floor(stat.birthtimeMs || stat.mtimeMs),
+        lastActivity: Math.floor(stat.mtimeMs),
+        messageCount: lines.length,
+      });
+      added++;
+    }
+    if (added > 0) {
+      logger.info(`Indexed ${added} existing conversation(s)`);
+      this.saveIndex();
+    }
+  }
+
+  private saveIndex(): void {
+    const infos = Array.from(this.index.values());
+    try {
+      writeFileAtomic(this.indexPath, JSON.stringify(infos, null, 2));
+    } catch (err) {
+      logger.error(`Failed to save conversation index: ${err}`);
+    }
+  }
+
+  private readContext(conversationId: string): CompactedContext | undefined {
+    const contextPath = this.getContextPath(conversationId);
+    if (!fs.existsSync(contextPath)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(contextPath, 'utf-8'));
+    } catch (err) {
+      logger.warn(`Ignoring unreadable compacted context of ${conversationId}: ${err}`);
+      return undefined;
+    }
+  }
+
+  private getFilePath(conversationId: string): string {
+    return path.join(this.storePath, `${encodeURIComponent(conversationId)}.jsonl`);
+  }
+
+  private getContextPath(conversationId: string): string {
+    return path.join(this.storePath, `${encodeURIComponent(conversationId)}.context.json`);
+  }
+}
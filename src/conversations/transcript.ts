@@ -0,0 +1,75 @@
+import { ChatMessage } from '../llm/llmProvider';
+import { ConversationInfo } from './conversationStore';
+
+export interface Transcript extends ConversationInfo {
+  messages: ChatMessage[];
+}
+
+function formatArguments(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+function fence(text: string, lang = ''): string {
+  // Use a fence longer than any backtick run inside the text
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map((m) => m.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${lang}\n${text}\n${marker}`;
+}
+
+/**
+ * Renders a transcript as Markdown: one section per message, with tool
+ * calls and tool results shown as code blocks.
+ */
+export function formatTranscriptMarkdown(transcript: Transcript): string {
+  const lines: string[] = [`# Conversation ${transcript.id}`, ''];
+
+  const meta: Array<[string, string | undefined]> = [
+    ['Agent', transcript.agent],
+    ['Channel', transcript.channel],
+    ['Sender', transcript.sender],
+    ['Model', transcript.model],
+    ['Started', new Date(transcript.createdAt).toISOString()],
+    ['Last activity', new Date(transcript.lastActivity).toISOString()],
+    ['Messages', String(transcript.messageCount)],
+  ];
+  for (const [label, value] of meta) {
+    if (value) lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push('');
+
+  const toolNames = new Map<string, string>();
+  for (const message of transcript.messages) {
+    switch (message.role) {
+      case 'system':
+        lines.push('## System', '', fence(message.content), '');
+        break;
+      case 'user':
+        lines.push('## User', '', message.content, '');
+        break;
+      case 'assistant':
+        lines.push('## Assistant', '');
+        if (message.content) lines.push(message.content, '');
+        for (const call of message.tool_calls || []) {
+          toolNames.set(call.id, call.function.name);
+          lines.push(
+            `**Tool call:** \`${call.function.name}\``,
+            '',
+            fence(formatArguments(call.function.arguments), 'json'),
+            ''
+          );
+        }
+        break;
+      case 'tool': {
+        const name = (message.tool_call_id && toolNames.get(message.tool_call_id)) || 'tool';
+        lines.push(`### Result of \`${name}\``, '', fence(message.content), '');
+        break;
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
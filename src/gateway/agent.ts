@@ -1,11 +1,29 @@
+import { v4 as uuidv4 } from 'uuid';
 import {
   LLMProvider,
   ChatMessage,
   LLMConfig,
+  LLMResponse,
   ToolCall,
+  ToolDefinition,
 } from '../llm/llmProvider';
-import { ToolManager, ToolsConfig } from '../tools/toolManager';
-import { MemoryManager, MemoryConfig } from '../memory/memoryManager';
+import {
+  ToolManager,
+  ToolsConfig,
+  ExternalTool,
+  RunOrigin,
+} from '../tools/toolManager';
+import { MemoryManager, MemoryConfig, MemoryEntry } from '../memory/memoryManager';
+import { repairJson } from '../llm/promptedTools';
+import { ContextCompactor, CompactionConfig } from './contextCompactor';
+import { ApprovalRequest } from './approvalManager';
+import { ApprovalPolicy, ApprovalConfig } from '../tools/approvalPolicy';
+import { ConversationStore } from '../conversations/conversationStore';
+import { AuditLog, RunStatus, ToolAuditEntry } from '../audit/auditLog';
+import { UsageTracker } from '../usage/usageTracker';
+import { EventBus } from './eventBus';
+import { READ_TOOL_OUTPUT, ToolOutputStore, formatPreview } from '../tools/toolOutputStore';
+import { RunGuard, RunLimitsConfig } from './runGuard';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.create('agent');
@@ -32,36 +50,182 @@ Important:
 - Always confirm before destructive operations`;
 }
 
+/** A restricted tool list also gets read_tool_output, which previews of long outputs point to. */
+function withOutputReader(enabledTools?: string[]): string[] | undefined {
+  if (!enabledTools || enabledTools.length === 0 || enabledTools.includes(READ_TOOL_OUTPUT)) {
+    return enabledTools;
+  }
+  return [...enabledTools, READ_TOOL_OUTPUT];
+}
+
 export interface AgentConfig {
+  name: string;
+  systemPrompt?: string;
+  enabledTools?: string[];
   llm: LLMConfig;
   tools: ToolsConfig;
   memory: MemoryConfig;
+  /** Shared by all agent profiles so conversations can be listed in one place. */
+  conversationStore: ConversationStore;
+  auditLog: AuditLog;
+  usageTracker: UsageTracker;
+  /** Receives live progress of every run, for the event stream. */
+  events: EventBus;
+  /** Full tool outputs that were too long for the LLM, shared by all profiles. */
+  toolOutputs: ToolOutputStore;
+  compaction: CompactionConfig;
+  approval: ApprovalConfig;
+  runLimits: RunLimitsConfig;
   workspaceDir: string;
   configDir: string;
 }
 
+export type AgentEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_start'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; result: string };
+
+export interface ChatOptions {
+  /** When set, the LLM response is streamed and progress is reported here. */
+  onEvent?: (event: AgentEvent) => void;
+  /** Asks the originating user to approve a tool call; resolves to their answer. */
+  requestApproval?: (request: ApprovalRequest) => Promise<boolean>;
+  /** Where the message came from; passed on to tools. */
+  origin?: RunOrigin;
+  /** Called with the token usage of every LLM call in the run. */
+  onUsage?: (usage: NonNullable<LLMResponse['usage']>) => void;
+  /**
+   * The conversation only exists for this run and is deleted when it ends;
+   * its usage is accounted to EPHEMERAL_USAGE_ID.
+   */
+  ephemeral?: boolean;
+}
+
+/** Conversation id under which the usage of ephemeral runs is accounted. */
+export const EPHEMERAL_USAGE_ID = 'ephemeral';
+
+/** Outcome of a run, filled in as it progresses and written to the audit log. */
+interface RunAudit {
+  runId: string;
+  /** Model the run uses, fixed when it starts. */
+  model: string;
+  status: RunStatus;
+  iterations: number;
+  toolCalls: number;
+  /** Fallback backends that answered when the primary failed. */
+  fallbacks?: string[];
+  error?: string;
+}
+
 export class Agent {
+  readonly name: string;
+  private config: AgentConfig;
   private llm: LLMProvider;
   private toolManager: ToolManager;
   private memory: MemoryManager;
-  private conversations: Map<string, ChatMessage[]> = new Map();
+  private store: ConversationStore;
+  private compactor: ContextCompactor;
+  private approvalPolicy: ApprovalPolicy;
+  private auditLog: AuditLog;
+  private usageTracker: UsageTracker;
+  private events: EventBus;
+  private activeRuns: Map<string, AbortController> = new Map();
 
   constructor(config: AgentConfig) {
+    this.name = config.name;
+    this.config = config;
     this.llm = new LLMProvider(config.llm);
-    this.toolManager = new ToolManager(config.tools, config.workspaceDir);
+    this.toolManager = new ToolManager(
+      config.tools,
+      config.workspaceDir,
+      withOutputReader(config.enabledTools)
+    );
+    this.toolManager.registerTool(config.toolOutputs.getTool());
     this.memory = new MemoryManager(config.memory, config.configDir);
+    this.store = config.conversationStore;
+    this.compactor = new ContextCompactor(config.compaction, this.llm);
+    this.approvalPolicy = new ApprovalPolicy(config.approval);
+    this.auditLog = config.auditLog;
+    this.usageTracker = config.usageTracker;
+    this.events = config.events;
   }
 
   async chat(
     conversationId: string,
-    userMessage: string
+    userMessage: string,
+    options: ChatOptions = {}
+  ): Promise<string> {
+    const controller = new AbortController();
+    this.activeRuns.set(conversationId, controller);
+    const audit: RunAudit = {
+      runId: uuidv4(),
+      model: this.getModel(conversationId),
+      status: 'completed',
+      iterations: 0,
+      toolCalls: 0,
+    };
+    const startedAt = Date.now();
+    try {
+      return await this.run(conversationId, userMessage, options, controller.signal, audit);
+    } catch (err: any) {
+      audit.status = 'failed';
+      audit.error = err.message;
+      throw err;
+    } finally {
+      if (this.activeRuns.get(conversationId) === controller) {
+        this.activeRuns.delete(conversationId);
+      }
+      this.auditLog.record({
+        type: 'run',
+        ...this.auditFields(conversationId, options, audit),
+        status: audit.status,
+        durationMs: Date.now() - startedAt,
+        iterations: audit.iterations,
+        toolCalls: audit.toolCalls,
+        fallbacks: audit.fallbacks,
+        error: audit.error,
+      });
+      if (options.ephemeral) {
+        this.clearConversation(conversationId);
+      }
+    }
+  }
+
+  /**
+   * Aborts the in-flight run for a conversation: the pending LLM request and
+   * any running tool are stopped. Returns false when nothing is running.
+   */
+  cancel(conversationId: string): boolean {
+    const controller = this.activeRuns.get(conversationId);
+    if (!controller) return false;
+    logger.info(`Cancelling run for ${conversationId}`);
+    controller.abort();
+    return true;
+  }
+
+  isRunning(conversationId: string): boolean {
+    return this.activeRuns.has(conversationId);
+  }
+
+  private async run(
+    conversationId: string,
+    userMessage: string,
+    options: ChatOptions,
+    signal: AbortSignal,
+    audit: RunAudit
   ): Promise<string> {
-    let messages = this.conversations.get(conversationId) || [];
+    const emit = options.onEvent || (() => {});
+    const messages = this.getMessages(conversationId);
+    this.store.updateDetails(conversationId, {
+      agent: this.name,
+      channel: options.origin?.channelName,
+      sender: options.origin?.senderId,
+    });
 
     if (messages.length === 0) {
       const systemMessage: ChatMessage = {
         role: 'system',
-        content: buildSystemPrompt(),
+        content: this.config.systemPrompt || buildSystemPrompt(),
       };
 
       const memoryContext = this.memory.getContext();
@@ -69,83 +233,313 @@ export class Agent {
         systemMessage.content += `\n\n${memoryContext}`;
       }
 
-      messages.push(systemMessage);
+      this.addMessage(conversationId, messages, systemMessage);
     }
 
-    messages.push({ role: 'user', content: userMessage });
+    this.addMessage(conversationId, messages, { role: 'user', content: userMessage });
 
     const tools = this.toolManager.getToolDefinitions();
-    let maxIterations = 10;
+    const limits = this.config.runLimits;
+    const guard = new RunGuard(limits);
+
+    while (audit.iterations < limits.maxIterations) {
+      audit.iterations++;
 
-    while (maxIterations > 0) {
-      maxIterations--;
+      if (signal.aborted) {
+        return this.finishCancelled(conversationId, messages, audit);
+      }
+      if (guard.isOutOfTime()) {
+        return this.finishUnresolved(conversationId, messages, audit, 'timed_out', guard, limits);
+      }
 
       let response;
       try {
-        logger.info(`Agent loop iteration ${10 - maxIterations}, sending ${messages.length} messages to LLM`);
-        response = await this.llm.chat(messages, tools);
+        await this.compactIfNeeded(conversationId, messages, tools, options, signal, audit);
+        logger.info(`Agent loop iteration ${audit.iterations}, sending ${messages.length} messages to LLM`);
+        this.events.publish({
+          type: 'llm_iteration',
+          conversationId,
+          runId: audit.runId,
+          agent: this.name,
+          iteration: audit.iterations,
+          messages: messages.length,
+        });
+        response = options.onEvent
+          ? await this.llm.chatStream(
+              messages,
+              tools,
+              (content) => emit({ type: 'token', content }),
+              signal,
+              audit.model
+            )
+          : await this.llm.chat(messages, tools, signal, audit.model);
       } catch (err: any) {
+        if (signal.aborted) {
+          return this.finishCancelled(conversationId, messages, audit);
+        }
         logger.error(`LLM call failed: ${err.message}`);
-        this.conversations.set(conversationId, messages);
+        audit.status = 'failed';
+        audit.error = err.message;
         return `Sorry, the LLM request failed: ${err.message}`;
       }
 
+      this.recordResponse(conversationId, options, audit, response);
+
       if (response.tool_calls && response.tool_calls.length > 0) {
         // Add assistant message with tool calls
-        messages.push({
+        this.addMessage(conversationId, messages, {
           role: 'assistant',
           content: response.content || '',
           tool_calls: response.tool_calls,
         });
 
         // Execute each tool call
+        let deniedTool: string | null = null;
         for (const toolCall of response.tool_calls) {
           const args = this.parseToolArgs(toolCall);
+          const toolAudit = {
+            type: 'tool_call' as const,
+            ...this.auditFields(conversationId, options, audit),
+            tool: toolCall.function.name,
+            arguments: args,
+          };
+          audit.toolCalls++;
+
+          if (deniedTool || signal.aborted) {
+            this.recordSkippedTool(toolAudit, 'skipped');
+            this.addMessage(conversationId, messages, {
+              role: 'tool',
+              content: signal.aborted
+                ? 'Skipped: the run was cancelled.'
+                : 'Skipped: the run was stopped because an earlier tool call was not approved.',
+              tool_call_id: toolCall.id,
+            });
+            continue;
+          }
+
+          const refusal = guard.refuse(toolCall.function.name, args);
+          if (refusal) {
+            logger.warn(`Refused ${toolCall.function.name} call in ${conversationId}`);
+            this.recordSkippedTool(toolAudit, 'skipped');
+            this.addMessage(conversationId, messages, {
+              role: 'tool',
+              content: refusal,
+              tool_call_id: toolCall.id,
+            });
+            continue;
+          }
+
+          const approvalReason = this.approvalPolicy.check(toolCall.function.name, args);
+          if (approvalReason) {
+            const approved = await this.askApproval(options, {
+              tool: toolCall.function.name,
+              arguments: args,
+              reason: approvalReason,
+            });
+            if (!approved) {
+              this.recordSkippedTool(
+                { ...toolAudit, approval: 'denied' },
+                signal.aborted ? 'skipped' : 'denied'
+              );
+              if (!signal.aborted) {
+                deniedTool = toolCall.function.name;
+              }
+              this.addMessage(conversationId, messages, {
+                role: 'tool',
+                content: signal.aborted
+                  ? 'Skipped: the run was cancelled.'
+                  : options.requestApproval
+                    ? 'The user did not approve this tool call. It was not executed.'
+                    : 'This tool call needs approval, and no one can be asked for it in this run. It was not executed.',
+                tool_call_id: toolCall.id,
+              });
+              continue;
+            }
+          }
+
           logger.info(`Calling tool: ${toolCall.function.name}`);
+          emit({
+            type: 'tool_start',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: args,
+          });
+          this.events.publish({
+            type: 'tool_started',
+            conversationId,
+            runId: audit.runId,
+            agent: this.name,
+            toolCallId: toolCall.id,
+            tool: toolCall.function.name,
+            arguments: args,
+          });
 
           let result: string;
+          let exitCode: number | undefined;
+          let failed = false;
+          let error: string | undefined;
+          const toolStartedAt = Date.now();
           try {
-            result = await this.toolManager.executeTool(
+            const toolResult = await this.toolManager.executeTool(
               toolCall.function.name,
-              args
+              args,
+              {
+                signal,
+                conversationId,
+                agentName: this.name,
+                origin: options.origin,
+              }
             );
+            result = toolResult.output;
+            exitCode = toolResult.exitCode;
+            failed = toolResult.failed || false;
           } catch (err: any) {
             logger.error(`Tool ${toolCall.function.name} threw: ${err.message}`);
             result = `Tool error: ${err.message}`;
+            failed = true;
+            error = err.message;
           }
+          guard.record(toolCall.function.name, args, result, failed);
 
-          // Truncate large tool results to avoid overwhelming the LLM context
-          const MAX_TOOL_RESULT = 4000;
-          if (result.length > MAX_TOOL_RESULT) {
-            logger.info(`Truncating tool result from ${result.length} to ${MAX_TOOL_RESULT} chars`);
-            result = result.substring(0, MAX_TOOL_RESULT) + `\n\n[...truncated, ${result.length - MAX_TOOL_RESULT} chars omitted]`;
+          const maxResultChars = limits.maxToolResultChars;
+          const toolDurationMs = Date.now() - toolStartedAt;
+          this.auditLog.record({
+            ...toolAudit,
+            status: failed ? 'error' : 'ok',
+            approval: approvalReason ? 'approved' : undefined,
+            exitCode,
+            error: failed ? error || result : undefined,
+            durationMs: toolDurationMs,
+            outputChars: result.length,
+            truncated: result.length > maxResultChars,
+          });
+          if (result.length > maxResultChars) {
+            result = this.shortenToolResult(
+              conversationId,
+              `${audit.runId.substring(0, 8)}-${audit.toolCalls}`,
+              toolCall.function.name,
+              result,
+              maxResultChars
+            );
           }
 
-          messages.push({
+          this.addMessage(conversationId, messages, {
             role: 'tool',
             content: result,
             tool_call_id: toolCall.id,
           });
+          emit({
+            type: 'tool_result',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            result,
+          });
+          this.events.publish({
+            type: 'tool_finished',
+            conversationId,
+            runId: audit.runId,
+            agent: this.name,
+            toolCallId: toolCall.id,
+            tool: toolCall.function.name,
+            exitCode,
+            durationMs: toolDurationMs,
+            result,
+          });
 
           logger.info(
             `Tool ${toolCall.function.name} completed (${result.length} chars)`
           );
         }
 
+        if (signal.aborted) {
+          return this.finishCancelled(conversationId, messages, audit);
+        }
+
+        if (deniedTool) {
+          audit.status = 'denied';
+          const abortMessage = `I did not run ${deniedTool} because it was not approved, so I stopped here. Let me know how you would like to proceed.`;
+          this.addMessage(conversationId, messages, { role: 'assistant', content: abortMessage });
+          return abortMessage;
+        }
+
+        const verdict = guard.check();
+        if (verdict.action === 'stop') {
+          return this.finishUnresolved(conversationId, messages, audit, 'loop_detected', guard, limits);
+        }
+        if (verdict.action === 'hint') {
+          logger.warn(`Run in ${conversationId} is stuck, adding a corrective hint`);
+          this.addMessage(conversationId, messages, { role: 'system', content: verdict.message });
+        }
+
         // Continue the loop so the LLM can process tool results
         continue;
       }
 
       // No tool calls, we have a final response
       const assistantMessage = response.content || 'I processed the request but have no additional response.';
-      messages.push({ role: 'assistant', content: assistantMessage });
-      this.conversations.set(conversationId, messages);
+      this.addMessage(conversationId, messages, { role: 'assistant', content: assistantMessage });
 
       return assistantMessage;
     }
 
-    this.conversations.set(conversationId, messages);
-    return 'I reached the maximum number of tool iterations. Please try rephrasing your request.';
+    return this.finishUnresolved(conversationId, messages, audit, 'max_iterations', guard, limits);
+  }
+
+  /** The conversation's chosen model, or the profile's default. */
+  getModel(conversationId?: string): string {
+    const chosen = conversationId ? this.store.getInfo(conversationId)?.model : undefined;
+    return chosen || this.config.llm.model;
+  }
+
+  /**
+   * Switches a conversation to another model offered by the provider, or
+   * back to the profile's default when model is null. Takes effect from the
+   * next run.
+   */
+  async setModel(conversationId: string, model: string | null): Promise<void> {
+    if (model) {
+      const available = await this.listModels();
+      if (available.length === 0) {
+        throw new Error('Could not list the available models, so the model was not changed');
+      }
+      if (!available.includes(model)) {
+        throw new Error(`Unknown model: ${model}. Available: ${available.join(', ')}`);
+      }
+    }
+    this.store.updateDetails(conversationId, { agent: this.name, model: model || '' });
+    logger.info(`Conversation ${conversationId} now uses ${model || this.config.llm.model}`);
+  }
+
+  /**
+   * Applies a reloaded profile: LLM settings, run limits, tool lists and the
+   * system prompt, which only affects conversations started afterwards. A run in
+   * progress keeps its model but makes its remaining calls with the new
+   * settings.
+   */
+  reconfigure(config: AgentConfig): void {
+    this.config = {
+      ...this.config,
+      systemPrompt: config.systemPrompt,
+      enabledTools: config.enabledTools,
+      llm: config.llm,
+      tools: config.tools,
+      runLimits: config.runLimits,
+    };
+    this.llm.updateConfig(config.llm);
+    this.toolManager.reconfigure(config.tools, withOutputReader(config.enabledTools));
+  }
+
+  registerTool(tool: ExternalTool): void {
+    this.toolManager.registerTool(tool);
+  }
+
+  getToolNames(): string[] {
+    return this.toolManager.getToolDefinitions().map((t) => t.function.name);
+  }
+
+  /** Entries in the profile's memory, newest first; filtered when a query is given. */
+  listMemory(query?: string): MemoryEntry[] {
+    return query ? this.memory.search(query) : this.memory.list();
   }
 
   async testConnection(): Promise<boolean> {
@@ -157,17 +551,216 @@ export class Agent {
   }
 
   clearConversation(conversationId: string): void {
-    this.conversations.delete(conversationId);
+    this.store.delete(conversationId);
+    this.config.toolOutputs.delete(conversationId);
   }
 
   async cleanup(): Promise<void> {
     await this.toolManager.cleanup();
   }
 
+  private finishCancelled(
+    conversationId: string,
+    messages: ChatMessage[],
+    audit: RunAudit
+  ): string {
+    logger.info(`Run for ${conversationId} was cancelled`);
+    audit.status = 'cancelled';
+    const cancelMessage = 'Run cancelled by the user.';
+    this.addMessage(conversationId, messages, { role: 'assistant', content: cancelMessage });
+    return cancelMessage;
+  }
+
+  /**
+   * Keeps a long tool result out of the LLM context: the full output is
+   * stored and the LLM gets a preview it can page from with read_tool_output.
+   * Pages of read_tool_output itself are only cut, to avoid storing copies.
+   */
+  private shortenToolResult(
+    conversationId: string,
+    artifactId: string,
+    tool: string,
+    result: string,
+    maxChars: number
+  ): string {
+    if (tool !== READ_TOOL_OUTPUT) {
+      try {
+        this.config.toolOutputs.save(conversationId, artifactId, result);
+        logger.info(`Stored ${result.length} chars of ${tool} output as ${artifactId}`);
+        return formatPreview(tool, artifactId, result, maxChars);
+      } catch (err: any) {
+        logger.error(`Failed to store ${tool} output: ${err.message}`);
+      }
+    }
+    logger.info(`Truncating tool result from ${result.length} to ${maxChars} chars`);
+    return result.substring(0, maxChars) + `\n\n[...truncated, ${result.length - maxChars} chars omitted]`;
+  }
+
+  /** Ends a run that used up its budget or got stuck, telling the user what was tried. */
+  private finishUnresolved(
+    conversationId: string,
+    messages: ChatMessage[],
+    audit: RunAudit,
+    status: 'max_iterations' | 'timed_out' | 'loop_detected',
+    guard: RunGuard,
+    limits: RunLimitsConfig
+  ): string {
+    logger.warn(`Run for ${conversationId} ended without an answer: ${status}`);
+    audit.status = status;
+    const reason = {
+      max_iterations: `I used all ${limits.maxIterations} steps allowed for one request without finishing.`,
+      timed_out: `I ran out of time (${Math.round(limits.maxRunMs / 1000)} seconds) before finishing.`,
+      loop_detected: 'I stopped because I kept repeating steps that did not work.',
+    }[status];
+    const reply = `${reason}\n\n${guard.summary()}\n\nLet me know how you would like to proceed.`;
+    this.addMessage(conversationId, messages, { role: 'assistant', content: reply });
+    return reply;
+  }
+
+  private auditFields(conversationId: string, options: ChatOptions, audit: RunAudit) {
+    return {
+      runId: audit.runId,
+      conversationId,
+      agent: this.name,
+      model: audit.model,
+      channel: options.origin?.channelName,
+      sender: options.origin?.senderId,
+    };
+  }
+
+  private recordSkippedTool(
+    entry: Omit<ToolAuditEntry, 'id' | 'timestamp' | 'status' | 'durationMs' | 'outputChars' | 'truncated'>,
+    status: 'denied' | 'skipped'
+  ): void {
+    this.auditLog.record({ ...entry, status, durationMs: 0, outputChars: 0, truncated: false });
+  }
+
+  private async askApproval(
+    options: ChatOptions,
+    request: ApprovalRequest
+  ): Promise<boolean> {
+    if (!options.requestApproval) {
+      logger.warn(`Tool ${request.tool} needs approval but this run has no approver; denying`);
+      return false;
+    }
+    logger.info(`Waiting for approval to run ${request.tool}: ${request.reason}`);
+    try {
+      return await options.requestApproval(request);
+    } catch (err: any) {
+      logger.error(`Approval request failed: ${err.message}`);
+      return false;
+    }
+  }
+
+  /** Notes a fallback backend and accounts the tokens of an LLM response to the run. */
+  private recordResponse(
+    conversationId: string,
+    options: ChatOptions,
+    audit: RunAudit,
+    response: LLMResponse
+  ): void {
+    const backend = response.backend;
+    if (backend?.fallback) {
+      const name = `${backend.provider}/${backend.model}`;
+      audit.fallbacks = Array.from(new Set([...(audit.fallbacks || []), name]));
+    }
+
+    if (response.usage) {
+      this.usageTracker.record({
+        conversationId: options.ephemeral ? EPHEMERAL_USAGE_ID : conversationId,
+        channel: options.origin?.channelName,
+        sender: options.origin?.senderId,
+        model: backend?.model || audit.model,
+        usage: response.usage,
+      });
+      options.onUsage?.(response.usage);
+    }
+  }
+
+  private async compactIfNeeded(
+    conversationId: string,
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options: ChatOptions,
+    signal: AbortSignal,
+    audit: RunAudit
+  ): Promise<void> {
+    if (!this.compactor.needsCompaction(messages, tools)) return;
+
+    // The summary is part of the run: it can be cancelled, uses the run's model and counts towards quotas
+    const compacted = await this.compactor.compact(messages, {
+      signal,
+      model: audit.model,
+      onResponse: (response) => this.recordResponse(conversationId, options, audit, response),
+    });
+    if (!compacted) return;
+
+    // Mutate in place so the caller's reference stays valid
+    messages.splice(0, messages.length, ...compacted.messages);
+    const head = compacted.messages.slice(0, compacted.messages.length - compacted.kept);
+    this.store.saveContext(conversationId, head, compacted.kept);
+  }
+
+  /**
+   * Read from the store at the start of every run: profiles share the store,
+   * and a conversation can move to another profile between runs.
+   */
+  private getMessages(conversationId: string): ChatMessage[] {
+    const messages = this.store.loadContext(conversationId);
+    this.closeInterruptedToolCalls(conversationId, messages);
+    return messages;
+  }
+
+  /**
+   * A restart in the middle of a tool loop leaves an assistant message whose
+   * tool calls never got results, which OpenAI-compatible APIs reject.
+   */
+  private closeInterruptedToolCalls(
+    conversationId: string,
+    messages: ChatMessage[]
+  ): void {
+    let lastAssistant = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === 'assistant') {
+        lastAssistant = i;
+        break;
+      }
+    }
+    const toolCalls = lastAssistant >= 0 ? messages[lastAssistant].tool_calls : undefined;
+    if (!toolCalls || toolCalls.length === 0) return;
+
+    const answered = new Set(
+      messages.slice(lastAssistant + 1).map((m) => m.tool_call_id)
+    );
+    for (const toolCall of toolCalls) {
+      if (!answered.has(toolCall.id)) {
+        this.addMessage(conversationId, messages, {
+          role: 'tool',
+          content: 'Tool call interrupted by a gateway restart.',
+          tool_call_id: toolCall.id,
+        });
+      }
+    }
+  }
+
+  private addMessage(
+    conversationId: string,
+    messages: ChatMessage[],
+    message: ChatMessage
+  ): void {
+    messages.push(message);
+    this.store.append(conversationId, [message]);
+  }
+
   private parseToolArgs(toolCall: ToolCall): Record<string, unknown> {
     try {
       return JSON.parse(toolCall.function.arguments);
     } catch {
+      const repaired = repairJson(toolCall.function.arguments);
+      if (repaired && typeof repaired === 'object' && !Array.isArray(repaired)) {
+        logger.warn(`Repaired malformed arguments of ${toolCall.function.name}`);
+        return repaired as Record<string, unknown>;
+      }
       return { command: toolCall.function.arguments };
     }
   }
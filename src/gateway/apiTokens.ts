@@ -0,0 +1,97 @@
+import * as crypto from 'crypto';
+import { ApiTokenConfig } from '../config/configManager';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('api-tokens');
+
+export const API_SCOPES = [
+  'chat',
+  'status',
+  'memory',
+  'events',
+  'approvals',
+  'channels:admin',
+  'admin',
+] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+/** Name and scopes of the token a request authenticated with. */
+export interface ApiIdentity {
+  name: string;
+  scopes: ApiScope[];
+}
+
+export type AuthResult =
+  | { ok: true; identity: ApiIdentity }
+  | { ok: false; error: string };
+
+// The legacy gateway.auth.token keeps full access
+const LEGACY_TOKEN_NAME = 'gateway';
+
+export function generateToken(): string {
+  return `oc_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Tokens are random and long, so a plain SHA-256 is enough to keep the
+ * config file from holding usable secrets.
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isValidScope(scope: string): scope is ApiScope {
+  return (API_SCOPES as readonly string[]).includes(scope);
+}
+
+export class ApiTokenManager {
+  private legacyHash: string | null = null;
+  private tokens: ApiTokenConfig[] = [];
+
+  constructor(auth: { token: string; tokens?: ApiTokenConfig[] }) {
+    this.update(auth);
+  }
+
+  update(auth: { token: string; tokens?: ApiTokenConfig[] }): void {
+    this.legacyHash = auth.token ? hashToken(auth.token) : null;
+    this.tokens = auth.tokens || [];
+    for (const token of this.tokens) {
+      const unknown = token.scopes.filter((s) => !isValidScope(s));
+      if (unknown.length > 0) {
+        logger.warn(`Token ${token.name} has unknown scopes: ${unknown.join(', ')}`);
+      }
+    }
+  }
+
+  /** With no tokens configured the gateway is open, as before tokens existed. */
+  isAuthRequired(): boolean {
+    return this.legacyHash !== null || this.tokens.length > 0;
+  }
+
+  authenticate(provided: string | undefined): AuthResult {
+    if (!provided) {
+      return { ok: false, error: 'Invalid authentication token' };
+    }
+    const hash = hashToken(provided);
+
+    if (this.legacyHash && safeEqual(hash, this.legacyHash)) {
+      return { ok: true, identity: { name: LEGACY_TOKEN_NAME, scopes: [...API_SCOPES] } };
+    }
+
+    const token = this.tokens.find((t) => safeEqual(hash, t.hash));
+    if (!token) {
+      return { ok: false, error: 'Invalid authentication token' };
+    }
+    if (token.expiresAt && Date.parse(token.expiresAt) <= Date.now()) {
+      return { ok: false, error: `Token ${token.name} has expired` };
+    }
+    return {
+      ok: true,
+      identity: { name: token.name, scopes: token.scopes.filter(isValidScope) },
+    };
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
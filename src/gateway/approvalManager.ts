@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('approvals');
+
+export interface ApprovalRequest {
+  tool: string;
+  arguments: Record<string, unknown>;
+  reason: string;
+}
+
+export interface PendingApproval extends ApprovalRequest {
+  id: string;
+  conversationId: string;
+  createdAt: number;
+  expiresAt: number;
+  /** API token whose run asked; it may answer without the approvals scope. */
+  requestedBy?: string;
+}
+
+interface PendingEntry {
+  approval: PendingApproval;
+  resolve: (approved: boolean) => void;
+  timer: NodeJS.Timeout;
+}
+
+const YES = /^(y|yes|si|sì|ok|approve|approved)[.!]*$/i;
+const NO = /^(n|no|deny|denied|reject)[.!]*$/i;
+
+/**
+ * Parses a free-text channel reply into an approval answer.
+ * Returns null when the text is neither a yes nor a no.
+ */
+export function parseApprovalReply(text: string): boolean | null {
+  const trimmed = text.trim();
+  if (YES.test(trimmed)) return true;
+  if (NO.test(trimmed)) return false;
+  return null;
+}
+
+export function formatApprovalPrompt(approval: PendingApproval): string {
+  const args = JSON.stringify(approval.arguments, null, 2);
+  return `Approval needed: the assistant wants to run ${approval.tool} (${approval.reason}).\n\n${args}\n\nReply "yes" to allow or "no" to cancel.`;
+}
+
+/**
+ * Holds tool calls that are waiting for a human decision. Each request
+ * resolves exactly once: on an explicit answer or, when the timeout
+ * expires, as denied.
+ */
+export class ApprovalManager {
+  private pending: Map<string, PendingEntry> = new Map();
+
+  request(
+    conversationId: string,
+    request: ApprovalRequest,
+    timeoutMs: number,
+    notify: (approval: PendingApproval) => void | Promise<void>,
+    requestedBy?: string
+  ): Promise<boolean> {
+    const now = Date.now();
+    const approval: PendingApproval = {
+      ...request,
+      id: uuidv4(),
+      conversationId,
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+      requestedBy,
+    };
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        logger.warn(`Approval ${approval.id} for ${approval.tool} timed out`);
+        this.settle(approval.id, false);
+      }, timeoutMs);
+
+      this.pending.set(approval.id, { approval, resolve, timer });
+      logger.info(`Approval ${approval.id} requested for ${approval.tool} in ${conversationId}`);
+
+      Promise.resolve(notify(approval)).catch((err) => {
+        logger.error(`Failed to deliver approval request ${approval.id}: ${err}`);
+      });
+    });
+  }
+
+  resolve(id: string, approved: boolean): boolean {
+    if (!this.pending.has(id)) return false;
+    logger.info(`Approval ${id} ${approved ? 'granted' : 'denied'}`);
+    this.settle(id, approved);
+    return true;
+  }
+
+  get(id: string): PendingApproval | null {
+    return this.pending.get(id)?.approval || null;
+  }
+
+  findByConversation(conversationId: string): PendingApproval | null {
+    for (const entry of this.pending.values()) {
+      if (entry.approval.conversationId === conversationId) {
+        return entry.approval;
+      }
+    }
+    return null;
+  }
+
+  /** Denies every pending approval of a conversation, e.g. when its run is cancelled. */
+  cancelByConversation(conversationId: string): number {
+    const ids = this.list()
+      .filter((a) => a.conversationId === conversationId)
+      .map((a) => a.id);
+    for (const id of ids) {
+      this.settle(id, false);
+    }
+    return ids.length;
+  }
+
+  list(): PendingApproval[] {
+    return Array.from(this.pending.values()).map((e) => e.approval);
+  }
+
+  private settle(id: string, approved: boolean): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+    entry.resolve(approved);
+  }
+}
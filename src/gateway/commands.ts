@@ -0,0 +1,233 @@
+import { Agent } from './agent';
+import { IncomingMessage } from '../channels/channelManager';
+import { ConversationInfo } from '../conversations/conversationStore';
+import { QuotaLimits } from '../usage/usageTracker';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('commands');
+
+// "/name args"; a path such as /home/user/notes.txt is not a command
+const COMMAND_PATTERN = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i;
+const MAX_MEMORY_ENTRIES = 20;
+const MAX_MEMORY_VALUE_CHARS = 200;
+
+export type CommandPermission = 'everyone' | 'admin' | 'disabled';
+
+export interface CommandsConfig {
+  enabled: boolean;
+  /** Sender ids allowed to run admin commands. */
+  admins: string[];
+  /** Per-command overrides of the built-in permission, keyed by name without the slash. */
+  permissions: Record<string, CommandPermission>;
+}
+
+export interface CommandContext {
+  conversationId: string;
+  message: IncomingMessage;
+  /** The agent profile the conversation is routed to. */
+  agent: Agent;
+  /** Text after the command name, trimmed. */
+  args: string;
+}
+
+export interface ChatCommand {
+  /** Name without the slash, lower case. */
+  name: string;
+  /** Argument synopsis shown by /help, e.g. "<name>". */
+  args?: string;
+  description: string;
+  /** Who may run the command unless commands.permissions says otherwise. */
+  permission: 'everyone' | 'admin';
+  run(context: CommandContext): string | Promise<string>;
+}
+
+/** Gateway state the built-in commands read and change. */
+export interface CommandHost {
+  cancelRun(conversationId: string): boolean;
+  clearConversation(conversationId: string): void;
+  getQueueDepth(conversationId: string): number;
+  getConversationInfo(conversationId: string): ConversationInfo | null;
+  getSenderUsage(sender: string): { daily: number; monthly: number; quota: QuotaLimits };
+}
+
+/**
+ * Slash commands sent on a channel. They are answered by the gateway
+ * without an LLM call; anything that does not look like a command goes to
+ * the agent as usual.
+ */
+export class CommandRegistry {
+  private config: CommandsConfig;
+  private commands: Map<string, ChatCommand> = new Map();
+
+  constructor(config: CommandsConfig) {
+    this.config = config;
+  }
+
+  register(command: ChatCommand): void {
+    if (this.commands.has(command.name)) {
+      throw new Error(`Command already registered: /${command.name}`);
+    }
+    this.commands.set(command.name, command);
+  }
+
+  /** Commands the sender may run, in registration order. */
+  available(senderId: string): ChatCommand[] {
+    return Array.from(this.commands.values()).filter((c) => this.isAllowed(c, senderId));
+  }
+
+  /** Runs the command in the text; resolves to null when the text is not a command. */
+  async handle(text: string, context: Omit<CommandContext, 'args'>): Promise<string | null> {
+    if (!this.config.enabled) return null;
+
+    const match = COMMAND_PATTERN.exec(text.trim());
+    if (!match) return null;
+
+    const name = match[1].toLowerCase();
+    const command = this.commands.get(name);
+    if (!command || this.permissionOf(command) === 'disabled') {
+      return `Unknown command /${name}. Send /help to see the available commands.`;
+    }
+
+    const sender = context.message.senderId;
+    if (!this.isAllowed(command, sender)) {
+      logger.warn(`Sender ${sender} is not allowed to run /${name}`);
+      return `You are not allowed to use /${name}.`;
+    }
+
+    logger.info(`Running /${name} for ${sender} in ${context.conversationId}`);
+    try {
+      return await command.run({ ...context, args: (match[2] || '').trim() });
+    } catch (err: any) {
+      logger.error(`Command /${name} failed: ${err.message}`);
+      return `/${name} failed: ${err.message}`;
+    }
+  }
+
+  private permissionOf(command: ChatCommand): CommandPermission {
+    return this.config.permissions[command.name] || command.permission;
+  }
+
+  private isAllowed(command: ChatCommand, senderId: string): boolean {
+    switch (this.permissionOf(command)) {
+      case 'everyone':
+        return true;
+      case 'admin':
+        return this.config.admins.includes(senderId);
+      default:
+        return false;
+    }
+  }
+}
+
+function formatTokens(used: number, limit?: number): string {
+  const count = `${used.toLocaleString('en-US')} tokens`;
+  return limit === undefined ? count : `${count} of ${limit.toLocaleString('en-US')}`;
+}
+
+export function registerBuiltinCommands(registry: CommandRegistry, host: CommandHost): void {
+  registry.register({
+    name: 'help',
+    description: 'List the commands you can use',
+    permission: 'everyone',
+    run: ({ message }) => {
+      const lines = registry
+        .available(message.senderId)
+        .map((c) => `/${c.name}${c.args ? ` ${c.args}` : ''} - ${c.description}`);
+      return `Commands:\n${lines.join('\n')}`;
+    },
+  });
+
+  registry.register({
+    name: 'reset',
+    description: 'Start a new conversation (also resets the model to the default)',
+    permission: 'everyone',
+    run: ({ conversationId }) => {
+      if (host.getQueueDepth(conversationId) > 0) {
+        return "I'm still working on a reply. Send /stop first, then /reset.";
+      }
+      host.clearConversation(conversationId);
+      return 'Conversation cleared.';
+    },
+  });
+
+  registry.register({
+    name: 'model',
+    args: '[name|default]',
+    description: 'Show or change the model for this conversation',
+    permission: 'everyone',
+    run: async ({ conversationId, agent, args }) => {
+      if (!args) {
+        const available = await agent.listModels();
+        const current = agent.getModel(conversationId);
+        const list = available.length > 0 ? available.join(', ') : '(could not list models)';
+        return `Current model: ${current} (default ${agent.getModel()}).\nAvailable: ${list}`;
+      }
+      if (args === 'default') {
+        await agent.setModel(conversationId, null);
+        return `Back to the default model, ${agent.getModel()}.`;
+      }
+      await agent.setModel(conversationId, args);
+      return `This conversation now uses ${args}.`;
+    },
+  });
+
+  registry.register({
+    name: 'tools',
+    description: 'List the tools the assistant can use here',
+    permission: 'everyone',
+    run: ({ agent }) => {
+      const tools = agent.getToolNames();
+      return tools.length > 0 ? `Tools: ${tools.join(', ')}` : 'No tools are enabled.';
+    },
+  });
+
+  registry.register({
+    name: 'memory',
+    args: '[search]',
+    description: 'Show what the assistant remembers',
+    permission: 'admin',
+    run: ({ agent, args }) => {
+      const entries = agent.listMemory(args || undefined);
+      if (entries.length === 0) {
+        return args ? `Nothing in memory matches "${args}".` : 'Memory is empty.';
+      }
+      const lines = entries.slice(0, MAX_MEMORY_ENTRIES).map((e) => {
+        const value =
+          e.value.length > MAX_MEMORY_VALUE_CHARS
+            ? `${e.value.substring(0, MAX_MEMORY_VALUE_CHARS)}...`
+            : e.value;
+        return `- ${e.key}: ${value}`;
+      });
+      const more =
+        entries.length > MAX_MEMORY_ENTRIES ? `\n(${entries.length - MAX_MEMORY_ENTRIES} more)` : '';
+      return `Memory (${entries.length}):\n${lines.join('\n')}${more}`;
+    },
+  });
+
+  registry.register({
+    name: 'status',
+    description: 'Show the state of this conversation and your usage',
+    permission: 'everyone',
+    run: ({ conversationId, agent, message }) => {
+      const info = host.getConversationInfo(conversationId);
+      const depth = host.getQueueDepth(conversationId);
+      const usage = host.getSenderUsage(message.senderId);
+      return [
+        `Agent: ${agent.name}`,
+        `Model: ${agent.getModel(conversationId)}`,
+        `Messages in this conversation: ${info?.messageCount || 0}`,
+        `Running: ${depth > 0 ? `yes (${depth} including queued)` : 'no'}`,
+        `Usage today: ${formatTokens(usage.daily, usage.quota.daily)}`,
+        `Usage this month: ${formatTokens(usage.monthly, usage.quota.monthly)}`,
+      ].join('\n');
+    },
+  });
+
+  registry.register({
+    name: 'stop',
+    description: 'Stop the reply in progress',
+    permission: 'everyone',
+    run: ({ conversationId }) =>
+      host.cancelRun(conversationId) ? 'Stopped.' : 'Nothing is running right now.',
+  });
+}
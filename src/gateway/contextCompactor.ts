@@ -0,0 +1,159 @@
+import { LLMProvider, LLMResponse, ChatMessage, ToolDefinition } from '../llm/llmProvider';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('compactor');
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+// Rough heuristic: ~4 characters per token for English text and JSON
+const CHARS_PER_TOKEN = 4;
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface CompactionConfig {
+  enabled: boolean;
+  maxPromptTokens: number;
+  keepRecentMessages: number;
+}
+
+/** How the summary request runs: as part of the run that needs it. */
+export interface SummaryOptions {
+  /** The run's signal; cancelling the run stops the summary request. */
+  signal?: AbortSignal;
+  /** The run's model, which may be a per-conversation choice. */
+  model?: string;
+  /** Receives the summary response, so its tokens count towards usage. */
+  onResponse?: (response: LLMResponse) => void;
+}
+
+export function estimateTokens(
+  messages: ChatMessage[],
+  tools?: ToolDefinition[]
+): number {
+  let chars = 0;
+  let overhead = 0;
+  for (const message of messages) {
+    chars += message.content.length;
+    if (message.tool_calls) {
+      chars += JSON.stringify(message.tool_calls).length;
+    }
+    overhead += MESSAGE_OVERHEAD_TOKENS;
+  }
+  if (tools && tools.length > 0) {
+    chars += JSON.stringify(tools).length;
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN) + overhead;
+}
+
+export class ContextCompactor {
+  private config: CompactionConfig;
+  private llm: LLMProvider;
+
+  constructor(config: CompactionConfig, llm: LLMProvider) {
+    this.config = config;
+    this.llm = llm;
+  }
+
+  needsCompaction(messages: ChatMessage[], tools?: ToolDefinition[]): boolean {
+    if (!this.config.enabled) return false;
+    return estimateTokens(messages, tools) > this.config.maxPromptTokens;
+  }
+
+  /**
+   * Replaces older turns with a single system note summarizing them.
+   * The system prompt, the recent messages and the latest user message are
+   * kept verbatim, and the cut never falls between an assistant tool call and
+   * its tool results. Returns the new messages and how many at the end were
+   * kept as they were, or null when there is nothing that can be compacted.
+   * Throws when the run is cancelled during the summary request.
+   */
+  async compact(
+    messages: ChatMessage[],
+    options: SummaryOptions = {}
+  ): Promise<{ messages: ChatMessage[]; kept: number } | null> {
+    const start = messages[0]?.role === 'system' ? 1 : 0;
+    const split = this.findSplitIndex(messages, start);
+    if (split <= start) {
+      logger.warn('Context over budget but no older turns can be compacted');
+      return null;
+    }
+
+    const older = messages.slice(start, split);
+    const summary = await this.summarize(older, options);
+    logger.info(`Compacted ${older.length} messages into a summary (${summary.length} chars)`);
+
+    return {
+      messages: [
+        ...messages.slice(0, start),
+        { role: 'system', content: `${SUMMARY_PREFIX}\n${summary}` },
+        ...messages.slice(split),
+      ],
+      kept: messages.length - split,
+    };
+  }
+
+  private findSplitIndex(messages: ChatMessage[], start: number): number {
+    let split = Math.max(start, messages.length - this.config.keepRecentMessages);
+
+    // Never summarize away the request the agent is currently working on
+    for (let i = messages.length - 1; i >= start; i--) {
+      if (messages[i].role === 'user') {
+        split = Math.min(split, i);
+        break;
+      }
+    }
+
+    // Tool results must stay with the assistant message that requested them
+    while (split > start && messages[split]?.role === 'tool') {
+      split--;
+    }
+
+    return split;
+  }
+
+  private async summarize(older: ChatMessage[], options: SummaryOptions): Promise<string> {
+    const transcript = older.map((m) => this.formatForSummary(m)).join('\n');
+
+    try {
+      const response = await this.llm.chat(
+        [
+          {
+            role: 'system',
+            content:
+              'You compress conversation history for an AI assistant. Summarize the transcript below in a few short bullet points. Keep facts, decisions, file paths, commands and results the assistant may need later. Do not add commentary.',
+          },
+          { role: 'user', content: transcript },
+        ],
+        undefined,
+        options.signal,
+        options.model
+      );
+      options.onResponse?.(response);
+      if (response.content.trim()) {
+        return response.content.trim();
+      }
+    } catch (err: any) {
+      if (options.signal?.aborted) throw err;
+      logger.warn(`Summarization failed, falling back to excerpts: ${err.message}`);
+    }
+
+    return older
+      .filter((m) => m.role === 'user' || (m.role === 'assistant' && m.content))
+      .map((m) => `- ${m.role}: ${m.content.substring(0, 200)}`)
+      .join('\n');
+  }
+
+  private formatForSummary(message: ChatMessage): string {
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      const calls = message.tool_calls
+        .map((tc) => `${tc.function.name}(${tc.function.arguments})`)
+        .join(', ');
+      return `assistant called tools: ${calls}`;
+    }
+    const content =
+      message.content.length > 2000
+        ? `${message.content.substring(0, 2000)} [...]`
+        : message.content;
+    return `${message.role}: ${content}`;
+  }
+}
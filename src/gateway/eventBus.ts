@@ -0,0 +1,94 @@
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('events');
+
+/**
+ * Live activity published by the gateway. Events about a run carry its
+ * conversationId; channel_status events are gateway-wide and have none.
+ */
+export type GatewayEventPayload =
+  | {
+      type: 'message_received';
+      conversationId: string;
+      channel: string;
+      sender: string;
+      senderName: string;
+      text: string;
+    }
+  | {
+      type: 'llm_iteration';
+      conversationId: string;
+      runId: string;
+      agent: string;
+      iteration: number;
+      messages: number;
+    }
+  | {
+      type: 'tool_started';
+      conversationId: string;
+      runId: string;
+      agent: string;
+      toolCallId: string;
+      tool: string;
+      arguments: Record<string, unknown>;
+    }
+  | {
+      type: 'tool_finished';
+      conversationId: string;
+      runId: string;
+      agent: string;
+      toolCallId: string;
+      tool: string;
+      exitCode?: number;
+      durationMs: number;
+      /** The result as the LLM sees it, after truncation. */
+      result: string;
+    }
+  | {
+      type: 'reply_sent';
+      conversationId: string;
+      channel: string;
+      recipient: string;
+      text: string;
+    }
+  | {
+      type: 'channel_status';
+      channel: string;
+      connected: boolean;
+      reason?: string;
+    };
+
+export type GatewayEvent = GatewayEventPayload & { timestamp: number };
+
+export type GatewayEventType = GatewayEvent['type'];
+
+export type EventListener = (event: GatewayEvent) => void;
+
+/**
+ * In-process fan-out of gateway events. Publishing never fails the caller:
+ * a listener that throws is logged and skipped.
+ */
+export class EventBus {
+  private listeners: Set<EventListener> = new Set();
+
+  publish(payload: GatewayEventPayload): void {
+    if (this.listeners.size === 0) return;
+
+    const event = { ...payload, timestamp: Date.now() } as GatewayEvent;
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (err: any) {
+        logger.error(`Event listener failed on ${event.type}: ${err.message}`);
+      }
+    }
+  }
+
+  /** Returns a function that removes the listener. */
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import * as http from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { EventBus, GatewayEvent } from './eventBus';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('event-stream');
+
+export const EVENTS_PATH = '/ws/events';
+
+const HEARTBEAT_INTERVAL = 30000;
+// A client this far behind is not reading; its events are dropped until it catches up
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+export type UpgradeAuthResult =
+  | { ok: true; name: string }
+  | { ok: false; status: number; error: string };
+
+interface Client {
+  socket: WebSocket;
+  name: string;
+  /** Receives every event, including channel status. */
+  all: boolean;
+  conversations: Set<string>;
+  alive: boolean;
+}
+
+interface ClientMessage {
+  type?: string;
+  conversation_id?: string;
+}
+
+/**
+ * WebSocket endpoint that forwards EventBus events to clients. A client
+ * subscribes to single conversations or to everything by sending
+ * {"type":"subscribe","conversation_id":"..."} or {"type":"subscribe"}.
+ */
+export class EventStream {
+  private wss: WebSocketServer;
+  private clients: Set<Client> = new Set();
+  private unsubscribe: () => void;
+  private heartbeat: NodeJS.Timeout;
+  /** Token names of authorized upgrade requests, until their connection is set up. */
+  private clientNames: WeakMap<http.IncomingMessage, string> = new WeakMap();
+
+  constructor(
+    server: http.Server,
+    bus: EventBus,
+    authorize: (req: http.IncomingMessage) => UpgradeAuthResult
+  ) {
+    this.wss = new WebSocketServer({
+      server,
+      path: EVENTS_PATH,
+      verifyClient: (info, done) => {
+        const result = authorize(info.req);
+        if (result.ok) {
+          this.clientNames.set(info.req, result.name);
+          done(true);
+        } else {
+          logger.warn(`Rejected event stream connection: ${result.error}`);
+          done(false, result.status, result.error);
+        }
+      },
+    });
+
+    this.wss.on('connection', (socket, req) => this.handleConnection(socket, req));
+    this.unsubscribe = bus.subscribe((event) => this.broadcast(event));
+    this.heartbeat = setInterval(() => this.checkAlive(), HEARTBEAT_INTERVAL);
+  }
+
+  getStatus(): Record<string, number> {
+    return { clients: this.clients.size };
+  }
+
+  close(): void {
+    clearInterval(this.heartbeat);
+    this.unsubscribe();
+    for (const client of this.clients) {
+      client.socket.close(1001, 'Gateway shutting down');
+    }
+    this.clients.clear();
+    this.wss.close();
+  }
+
+  private handleConnection(socket: WebSocket, req: http.IncomingMessage): void {
+    const client: Client = {
+      socket,
+      name: this.clientNames.get(req) || 'anonymous',
+      all: false,
+      conversations: new Set(),
+      alive: true,
+    };
+    this.clients.add(client);
+    logger.info(`Event stream client connected: ${client.name}`);
+
+    // Subscriptions can also be given on the URL, for clients that only listen
+    const url = new URL(req.url || '', 'http://localhost');
+    if (url.searchParams.get('all') === 'true') {
+      client.all = true;
+    }
+    for (const id of url.searchParams.getAll('conversation_id')) {
+      client.conversations.add(id);
+    }
+
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+    socket.on('message', (data) => this.handleMessage(client, data.toString()));
+    socket.on('close', () => {
+      this.clients.delete(client);
+      logger.info(`Event stream client disconnected: ${client.name}`);
+    });
+    socket.on('error', (err) => {
+      logger.warn(`Event stream client ${client.name} error: ${err.message}`);
+    });
+
+    this.send(client, this.subscriptionState(client, 'subscribed'));
+  }
+
+  private handleMessage(client: Client, data: string): void {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.send(client, { type: 'error', error: 'Messages must be JSON' });
+      return;
+    }
+
+    const id = message.conversation_id;
+    if (id !== undefined && (typeof id !== 'string' || !id)) {
+      this.send(client, { type: 'error', error: 'conversation_id must be a non-empty string' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'subscribe':
+        if (id) {
+          client.conversations.add(id);
+        } else {
+          client.all = true;
+        }
+        this.send(client, this.subscriptionState(client, 'subscribed'));
+        break;
+      case 'unsubscribe':
+        if (id) {
+          client.conversations.delete(id);
+        } else {
+          client.all = false;
+          client.conversations.clear();
+        }
+        this.send(client, this.subscriptionState(client, 'unsubscribed'));
+        break;
+      default:
+        this.send(client, { type: 'error', error: `Unknown message type: ${message.type}` });
+    }
+  }
+
+  private subscriptionState(client: Client, type: 'subscribed' | 'unsubscribed') {
+    return { type, all: client.all, conversations: Array.from(client.conversations) };
+  }
+
+  private broadcast(event: GatewayEvent): void {
+    const conversationId = 'conversationId' in event ? event.conversationId : undefined;
+    for (const client of this.clients) {
+      if (client.all || (conversationId && client.conversations.has(conversationId))) {
+        this.send(client, event);
+      }
+    }
+  }
+
+  private send(client: Client, data: unknown): void {
+    if (client.socket.readyState !== WebSocket.OPEN) return;
+    if (client.socket.bufferedAmount > MAX_BUFFERED_BYTES) return;
+    client.socket.send(JSON.stringify(data));
+  }
+
+  /** Drops clients that did not answer the previous ping. */
+  private checkAlive(): void {
+    for (const client of this.clients) {
+      if (!client.alive) {
+        logger.info(`Event stream client ${client.name} timed out`);
+        client.socket.terminate();
+        this.clients.delete(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }
+}
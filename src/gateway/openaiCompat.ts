@@ -0,0 +1,125 @@
+/**
+ * Request and response shapes for the OpenAI-compatible facade
+ * (/v1/chat/completions, /v1/models). The routes live in server.ts; this
+ * module only translates between the OpenAI format and Agent.chat.
+ */
+
+export interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool' | 'developer';
+  /** A string, or an array of content parts of which only text is used. */
+  content: string | Array<{ type: string; text?: string }> | null;
+}
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  /** Used as the conversation key when no X-Conversation-Id header is sent. */
+  user?: string;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export function openAIError(message: string, type: string, code?: string, param?: string) {
+  return { error: { message, type, param: param || null, code: code || null } };
+}
+
+function textOf(message: OpenAIMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+  return message.content
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Turns an OpenAI message list into the single user message the agent
+ * expects. A persistent conversation already holds the earlier turns, so
+ * only the last user message is sent. A one-off request has no history on
+ * the gateway, so the earlier turns are folded into the prompt.
+ */
+export function buildAgentPrompt(messages: OpenAIMessage[], persistent: boolean): string | null {
+  let lastUser = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      lastUser = i;
+      break;
+    }
+  }
+  if (lastUser < 0) return null;
+
+  const current = textOf(messages[lastUser]);
+  if (persistent || lastUser === 0) return current;
+
+  const earlier = messages
+    .slice(0, lastUser)
+    .filter((m) => m.role !== 'tool')
+    .map((m) => {
+      const label =
+        m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'Instructions';
+      return `${label}: ${textOf(m)}`;
+    })
+    .join('\n\n');
+
+  return `Earlier in this conversation:\n\n${earlier}\n\nCurrent message:\n${current}`;
+}
+
+export function addUsage(total: OpenAIUsage, usage: Partial<OpenAIUsage>): void {
+  total.prompt_tokens += usage.prompt_tokens || 0;
+  total.completion_tokens += usage.completion_tokens || 0;
+  total.total_tokens = total.prompt_tokens + total.completion_tokens;
+}
+
+export function completionResponse(
+  id: string,
+  model: string,
+  content: string,
+  usage: OpenAIUsage
+) {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop',
+      },
+    ],
+    usage,
+  };
+}
+
+export function completionChunk(
+  id: string,
+  model: string,
+  delta: { role?: 'assistant'; content?: string },
+  finishReason: 'stop' | null = null
+) {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+export function usageChunk(id: string, model: string, usage: OpenAIUsage) {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [],
+    usage,
+  };
+}
@@ -0,0 +1,129 @@
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('rate-limit');
+
+export interface RateLimitRule {
+  windowMs: number;
+  /** Requests allowed per key and window; 0 disables the limit. */
+  max: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** How long until the key's window resets, when not allowed. */
+  retryAfterMs: number;
+  /** True only for the first rejection in a window, so notices are not repeated. */
+  firstRejection: boolean;
+}
+
+interface Window {
+  start: number;
+  count: number;
+}
+
+/**
+ * Fixed-window request counter per key (an API token, a channel sender).
+ */
+export class RateLimiter {
+  private name: string;
+  private rule: RateLimitRule;
+  private windows: Map<string, Window> = new Map();
+  private allowed = 0;
+  private rejected = 0;
+
+  constructor(name: string, rule: RateLimitRule) {
+    this.name = name;
+    this.rule = rule;
+  }
+
+  hit(key: string): RateLimitResult {
+    if (!this.rule.max || this.rule.max <= 0) {
+      this.allowed++;
+      return { allowed: true, retryAfterMs: 0, firstRejection: false };
+    }
+
+    const now = Date.now();
+    this.prune(now);
+
+    let window = this.windows.get(key);
+    if (!window || now - window.start >= this.rule.windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+    }
+
+    if (window.count >= this.rule.max) {
+      const firstRejection = window.count === this.rule.max;
+      if (firstRejection) {
+        logger.warn(`${this.name}: ${key} hit the limit of ${this.rule.max} per ${this.rule.windowMs}ms`);
+      }
+      window.count++;
+      this.rejected++;
+      return {
+        allowed: false,
+        retryAfterMs: window.start + this.rule.windowMs - now,
+        firstRejection,
+      };
+    }
+
+    window.count++;
+    this.allowed++;
+    return { allowed: true, retryAfterMs: 0, firstRejection: false };
+  }
+
+  getStatus(): Record<string, number> {
+    this.prune(Date.now());
+    return {
+      windowMs: this.rule.windowMs,
+      max: this.rule.max,
+      activeKeys: this.windows.size,
+      allowed: this.allowed,
+      rejected: this.rejected,
+    };
+  }
+
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (now - window.start >= this.rule.windowMs) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Caps the number of agent runs admitted at once (running or waiting in the
+ * run queue). Runs that cannot get a slot are rejected rather than queued.
+ */
+export class ConcurrencyLimiter {
+  private max: number;
+  private active = 0;
+  private rejected = 0;
+
+  /** max of 0 disables the limit. */
+  constructor(max: number) {
+    this.max = max;
+  }
+
+  tryAcquire(): boolean {
+    if (this.max > 0 && this.active >= this.max) {
+      this.rejected++;
+      logger.warn(`Rejected agent run: ${this.active} of ${this.max} run slots in use`);
+      return false;
+    }
+    this.active++;
+    return true;
+  }
+
+  /** Takes a slot even when the limit is reached, for runs that must not be dropped. */
+  acquire(): void {
+    this.active++;
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+  }
+
+  getStatus(): Record<string, number> {
+    return { active: this.active, max: this.max, rejected: this.rejected };
+  }
+}
@@ -0,0 +1,157 @@
+export interface RunLimitsConfig {
+  /** LLM calls per run. */
+  maxIterations: number;
+  /** Wall-clock time per run, checked before each LLM call; 0 for no limit. */
+  maxRunMs: number;
+  /** Characters of a tool result passed to the LLM; the rest is cut off. */
+  maxToolResultChars: number;
+  /** Times the same tool may be called with the same arguments in one run. */
+  maxRepeatedCalls: number;
+  /** Failed tool calls in a row before the agent steps in. */
+  maxConsecutiveErrors: number;
+  /** Calls per run for individual tools, keyed by tool name; "*" applies to the others. */
+  toolCalls: Record<string, number>;
+}
+
+export type GuardVerdict =
+  | { action: 'continue' }
+  /** Tell the LLM to change course before its next call. */
+  | { action: 'hint'; message: string }
+  /** The LLM ignored an earlier hint; end the run. */
+  | { action: 'stop' };
+
+interface Attempt {
+  tool: string;
+  args: string;
+  calls: number;
+  failures: number;
+  lastOutput: string;
+}
+
+const MAX_SUMMARY_ATTEMPTS = 8;
+const MAX_SUMMARY_OUTPUT = 120;
+const MAX_REPEATED_OUTPUT = 500;
+
+/** JSON with sorted keys, so the same arguments in another order still match. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max)}...` : text;
+}
+
+/**
+ * Tracks the tool calls of one run against its limits. Small models tend to
+ * retry a failing call unchanged until the budget runs out; the guard
+ * refuses exact repeats, nudges the LLM with a system hint the first time it
+ * gets stuck, and asks for the run to stop when it gets stuck again.
+ */
+export class RunGuard {
+  private limits: RunLimitsConfig;
+  private startedAt = Date.now();
+  private attempts: Map<string, Attempt> = new Map();
+  private callsPerTool: Map<string, number> = new Map();
+  private consecutiveErrors = 0;
+  private refusedRepeats = 0;
+  private hinted = false;
+
+  constructor(limits: RunLimitsConfig) {
+    this.limits = limits;
+  }
+
+  isOutOfTime(): boolean {
+    return this.limits.maxRunMs > 0 && Date.now() - this.startedAt >= this.limits.maxRunMs;
+  }
+
+  /** The result to give the LLM instead of running the call, or null when it may run. */
+  refuse(tool: string, args: Record<string, unknown>): string | null {
+    const limit = this.limits.toolCalls[tool] ?? this.limits.toolCalls['*'];
+    const calls = this.callsPerTool.get(tool) || 0;
+    if (limit !== undefined && calls >= limit) {
+      return `Not executed: ${tool} may be called at most ${limit} time${limit === 1 ? '' : 's'} per request. Continue without it.`;
+    }
+
+    const attempt = this.attempts.get(`${tool}:${stableStringify(args)}`);
+    if (attempt && attempt.calls >= this.limits.maxRepeatedCalls) {
+      this.refusedRepeats++;
+      const outcome = attempt.failures > 0 ? 'and failed' : 'with this result';
+      return (
+        `Not executed: this exact call already ran ${attempt.calls} times ${outcome}:\n` +
+        `${clip(attempt.lastOutput, MAX_REPEATED_OUTPUT)}\n` +
+        'Running it again will not change anything.'
+      );
+    }
+    return null;
+  }
+
+  record(tool: string, args: Record<string, unknown>, output: string, failed: boolean): void {
+    const key = `${tool}:${stableStringify(args)}`;
+    const attempt = this.attempts.get(key) || {
+      tool,
+      args: stableStringify(args),
+      calls: 0,
+      failures: 0,
+      lastOutput: '',
+    };
+    attempt.calls++;
+    attempt.failures += failed ? 1 : 0;
+    attempt.lastOutput = output;
+    this.attempts.set(key, attempt);
+    this.callsPerTool.set(tool, (this.callsPerTool.get(tool) || 0) + 1);
+    this.consecutiveErrors = failed ? this.consecutiveErrors + 1 : 0;
+  }
+
+  /** Checked after each round of tool calls. */
+  check(): GuardVerdict {
+    const repeating = this.refusedRepeats > 0;
+    const failing =
+      this.limits.maxConsecutiveErrors > 0 &&
+      this.consecutiveErrors >= this.limits.maxConsecutiveErrors;
+    if (!repeating && !failing) return { action: 'continue' };
+
+    if (this.hinted) return { action: 'stop' };
+    this.hinted = true;
+    this.refusedRepeats = 0;
+    this.consecutiveErrors = 0;
+
+    const problem = repeating
+      ? 'You repeated a tool call that already ran with the same arguments; its result will not change.'
+      : `Your last ${this.limits.maxConsecutiveErrors} tool calls failed.`;
+    return {
+      action: 'hint',
+      message:
+        `${problem} Do not retry the same thing. Read the errors, try a different approach, ` +
+        'or answer the user with what you have and explain what is blocking you.',
+    };
+  }
+
+  /** What the run tried, for the reply when it ends without an answer. */
+  summary(): string {
+    const attempts = Array.from(this.attempts.values());
+    if (attempts.length === 0) return 'No tools were run.';
+
+    const lines = attempts.slice(0, MAX_SUMMARY_ATTEMPTS).map((a) => {
+      const times = a.calls > 1 ? `, ${a.calls} times` : '';
+      const outcome =
+        a.failures === 0 ? 'ok' : a.failures === a.calls ? 'failed' : `${a.failures} failed`;
+      // Two lines, so a bash result shows more than its "Exit code: n" line
+      const firstLines = a.lastOutput.split('\n').filter((line) => line.trim()).slice(0, 2);
+      const output = clip(firstLines.join(' / ') || '(no output)', MAX_SUMMARY_OUTPUT);
+      return `- ${a.tool} ${clip(a.args, MAX_SUMMARY_OUTPUT)}${times} (${outcome}): ${output}`;
+    });
+    if (attempts.length > MAX_SUMMARY_ATTEMPTS) {
+      lines.push(`- ...and ${attempts.length - MAX_SUMMARY_ATTEMPTS} other calls`);
+    }
+    return `What I tried:\n${lines.join('\n')}`;
+  }
+}
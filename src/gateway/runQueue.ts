@@ -0,0 +1,53 @@
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('run-queue');
+
+/**
+ * Serializes tasks that share a key (a conversation id) while letting tasks
+ * for different keys run concurrently. Each key keeps a promise chain; a new
+ * task starts when the previous one for the same key settles.
+ */
+export class RunQueue {
+  private tails: Map<string, Promise<void>> = new Map();
+  private depths: Map<string, number> = new Map();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const depth = (this.depths.get(key) || 0) + 1;
+    this.depths.set(key, depth);
+    if (depth > 1) {
+      logger.info(`Queued run for ${key} (${depth - 1} ahead)`);
+    }
+
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.then(task);
+
+    const tail: Promise<void> = result.then(
+      () => undefined,
+      () => undefined
+    ).then((): void => this.release(key, tail));
+    this.tails.set(key, tail);
+
+    return result;
+  }
+
+  /** Number of runs for the key that are running or waiting. */
+  getDepth(key: string): number {
+    return this.depths.get(key) || 0;
+  }
+
+  getStatus(): Record<string, number> {
+    return Object.fromEntries(this.depths);
+  }
+
+  private release(key: string, tail: Promise<void>): void {
+    const depth = (this.depths.get(key) || 1) - 1;
+    if (depth <= 0) {
+      this.depths.delete(key);
+    } else {
+      this.depths.set(key, depth);
+    }
+    if (this.tails.get(key) === tail) {
+      this.tails.delete(key);
+    }
+  }
+}
@@ -1,44 +1,280 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
+import * as fs from 'fs';
 import * as http from 'http';
 import { v4 as uuidv4 } from 'uuid';
-import { OpenClawConfig } from '../config/configManager';
-import { Agent, AgentConfig } from './agent';
-import { ChannelManager } from '../channels/channelManager';
+import { ConfigManager, OpenClawConfig } from '../config/configManager';
+import { Agent, AgentConfig, ChatOptions } from './agent';
+import {
+  ApprovalManager,
+  ApprovalRequest,
+  PendingApproval,
+  formatApprovalPrompt,
+  parseApprovalReply,
+} from './approvalManager';
+import { RunQueue } from './runQueue';
+import { WebhookManager, WebhookRequest, parseWebhookPayload } from './webhooks';
+import { ConcurrencyLimiter, RateLimiter } from './rateLimiter';
+import { ApiIdentity, ApiScope, ApiTokenManager } from './apiTokens';
+import { EventBus } from './eventBus';
+import { EventStream, UpgradeAuthResult } from './eventStream';
+import { ChatCommand, CommandRegistry, registerBuiltinCommands } from './commands';
+import {
+  OpenAIChatRequest,
+  OpenAIUsage,
+  addUsage,
+  buildAgentPrompt,
+  completionChunk,
+  completionResponse,
+  openAIError,
+  usageChunk,
+} from './openaiCompat';
+import { Scheduler, ScheduledTask } from '../scheduler/scheduler';
+import {
+  ConversationStore,
+  createConversationStore,
+} from '../conversations/conversationStore';
+import { Transcript, formatTranscriptMarkdown } from '../conversations/transcript';
+import { AuditLog, AuditQuery } from '../audit/auditLog';
+import {
+  UsageDimension,
+  UsageTracker,
+  formatQuotaMessage,
+} from '../usage/usageTracker';
+import { RunOrigin } from '../tools/toolManager';
+import { ToolOutputStore } from '../tools/toolOutputStore';
+import { ChannelManager, IncomingMessage } from '../channels/channelManager';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.create('server');
 
+const STOP_KEYWORDS = ['stop', 'cancel'];
+const DEFAULT_AGENT = 'default';
+const STARTED_AT = Math.floor(Date.now() / 1000);
+const USAGE_DIMENSIONS: UsageDimension[] = ['conversation', 'sender', 'channel', 'model', 'day'];
+// Config sections read once at startup; changing them needs a restart
+const RESTART_SECTIONS = [
+  'scheduler',
+  'memory',
+  'conversations',
+  'compaction',
+  'audit',
+  'usage',
+  'rateLimits',
+  'commands',
+  'approval',
+  'webhooks',
+] as const;
+
 export class GatewayServer {
   private app: express.Application;
   private server: http.Server | null = null;
   private config: OpenClawConfig;
-  private agent: Agent;
+  private agents: Map<string, Agent> = new Map();
   private channelManager: ChannelManager;
+  private approvals: ApprovalManager = new ApprovalManager();
+  private runQueue: RunQueue = new RunQueue();
+  private scheduler: Scheduler;
+  private webhooks: WebhookManager;
+  private conversationStore: ConversationStore;
+  private auditLog: AuditLog;
+  private usageTracker: UsageTracker;
+  private apiLimiter: RateLimiter;
+  private senderLimiter: RateLimiter;
+  private runLimiter: ConcurrencyLimiter;
+  private apiTokens: ApiTokenManager;
+  private events: EventBus = new EventBus();
+  private toolOutputs: ToolOutputStore;
+  private eventStream: EventStream | null = null;
+  private commands: CommandRegistry;
 
   constructor(config: OpenClawConfig) {
     this.config = config;
     this.app = express();
 
-    const agentConfig: AgentConfig = {
-      llm: config.llm,
-      tools: config.tools,
-      memory: config.memory,
-      workspaceDir: '/home/node/.openclaw/workspace',
-      configDir: '/home/node/.openclaw',
-    };
+    this.scheduler = new Scheduler(config.scheduler, '/home/node/.openclaw');
+    this.webhooks = new WebhookManager(config.webhooks);
+    this.conversationStore = createConversationStore(
+      config.conversations,
+      '/home/node/.openclaw'
+    );
+    this.auditLog = new AuditLog(config.audit, '/home/node/.openclaw');
+    this.toolOutputs = new ToolOutputStore('/home/node/.openclaw');
+    this.usageTracker = new UsageTracker(config.usage, '/home/node/.openclaw');
+    this.apiLimiter = new RateLimiter('api', config.rateLimits.api);
+    this.senderLimiter = new RateLimiter('channel-senders', config.rateLimits.channelSenders);
+    this.runLimiter = new ConcurrencyLimiter(config.rateLimits.maxConcurrentRuns);
+    this.apiTokens = new ApiTokenManager(config.gateway.auth);
+    this.watchConfig();
+    this.commands = new CommandRegistry(config.commands);
+    registerBuiltinCommands(this.commands, {
+      cancelRun: (id) => this.cancelRun(id),
+      clearConversation: (id) => this.clearConversation(id),
+      getQueueDepth: (id) => this.runQueue.getDepth(id),
+      getConversationInfo: (id) => this.conversationStore.getInfo(id),
+      getSenderUsage: (sender) => ({
+        ...this.usageTracker.getSenderUsage(sender),
+        quota: this.usageTracker.getQuota(sender),
+      }),
+    });
+
+    const profileNames = new Set([DEFAULT_AGENT, ...Object.keys(config.agents)]);
+    for (const name of profileNames) {
+      const agent = new Agent(this.buildAgentConfig(name));
+      // Without a running scheduler, tasks the LLM created would never run
+      if (config.scheduler.enabled) {
+        for (const tool of this.scheduler.getTools()) {
+          agent.registerTool(tool);
+        }
+      }
+      this.agents.set(name, agent);
+      logger.info(`Agent profile registered: ${name}`);
+    }
 
-    this.agent = new Agent(agentConfig);
     this.channelManager = new ChannelManager(config.channels);
+    this.channelManager.onStatusChange((channel, connected, reason) =>
+      this.events.publish({ type: 'channel_status', channel, connected, reason })
+    );
 
     this.setupMiddleware();
     this.setupRoutes();
+    this.setupOpenAIRoutes();
+  }
+
+  private buildAgentConfig(name: string): AgentConfig {
+    const profile = this.config.agents[name] || {};
+    return {
+      name,
+      systemPrompt: profile.systemPrompt,
+      enabledTools: profile.tools,
+      llm: { ...this.config.llm, ...profile.llm },
+      tools: this.config.tools,
+      memory: { ...this.config.memory, namespace: profile.memoryNamespace },
+      conversationStore: this.conversationStore,
+      auditLog: this.auditLog,
+      usageTracker: this.usageTracker,
+      events: this.events,
+      toolOutputs: this.toolOutputs,
+      compaction: this.config.compaction,
+      approval: this.config.approval,
+      runLimits: { ...this.config.runLimits, ...profile.runLimits },
+      workspaceDir: '/home/node/.openclaw/workspace',
+      configDir: '/home/node/.openclaw',
+    };
+  }
+
+  /**
+   * Re-reads the config file when it changes, e.g. after a token is created
+   * with the CLI. An invalid file is rejected and the running config kept.
+   */
+  private watchConfig(): void {
+    const configPath = ConfigManager.getConfigPath();
+    if (!configPath) return;
+    fs.watchFile(configPath, { interval: 5000 }, () => {
+      let next: OpenClawConfig;
+      try {
+        next = ConfigManager.load();
+      } catch (err: any) {
+        logger.error(`Config change ignored: ${err.message}`);
+        return;
+      }
+      this.applyConfig(next).catch((err) =>
+        logger.error(`Failed to apply config change: ${err.message}`)
+      );
+    });
+  }
+
+  /**
+   * Applies the parts of a reloaded config that can change while running:
+   * API tokens, LLM settings, run limits, the bash tool, agent profiles'
+   * prompts and tool lists, and channels. Anything else is reported as needing a restart
+   * and keeps its current value.
+   */
+  private async applyConfig(next: OpenClawConfig): Promise<void> {
+    const previous = this.config;
+    const differs = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+
+    const restartNeeded: string[] = RESTART_SECTIONS.filter((section) =>
+      differs(previous[section], next[section])
+    );
+    if (previous.gateway.bind !== next.gateway.bind || previous.gateway.port !== next.gateway.port) {
+      restartNeeded.push('gateway.bind/port');
+    }
+    for (const tool of ['browser', 'file', 'claudeCode'] as const) {
+      if (differs(previous.tools[tool], next.tools[tool])) restartNeeded.push(`tools.${tool}`);
+    }
+
+    // Profiles are created at startup; existing ones are updated in place
+    const agents = { ...previous.agents };
+    const removed: string[] = [];
+    for (const name of this.agents.keys()) {
+      if (next.agents[name]) {
+        agents[name] = next.agents[name];
+      } else if (name === DEFAULT_AGENT) {
+        delete agents[name];
+      } else {
+        removed.push(name);
+      }
+    }
+    const added = Object.keys(next.agents).filter((name) => !this.agents.has(name));
+    if (added.length > 0) restartNeeded.push(`agents (added: ${added.join(', ')})`);
+    if (removed.length > 0) restartNeeded.push(`agents (removed: ${removed.join(', ')})`);
+
+    this.config = {
+      ...previous,
+      gateway: { ...previous.gateway, auth: next.gateway.auth },
+      llm: next.llm,
+      tools: { ...previous.tools, bash: next.tools.bash },
+      agents,
+      channels: next.channels,
+      runLimits: next.runLimits,
+    };
+
+    this.apiTokens.update(next.gateway.auth);
+    for (const [name, agent] of this.agents) {
+      agent.reconfigure(this.buildAgentConfig(name));
+    }
+    if (differs(previous.channels, next.channels)) {
+      await this.channelManager.reconcile(next.channels);
+    }
+
+    logger.info('Configuration reloaded');
+    if (restartNeeded.length > 0) {
+      logger.warn(`Restart the gateway to apply changes to: ${restartNeeded.join(', ')}`);
+    }
+  }
+
+  private get defaultAgent(): Agent {
+    return this.agents.get(DEFAULT_AGENT)!;
+  }
+
+  /**
+   * Picks the agent profile for a channel message: a per-sender override on
+   * the channel wins, then the channel's profile, then the default profile.
+   */
+  private routeAgent(msg: IncomingMessage): Agent {
+    const channelConfig = this.config.channels.find(
+      (c) => (c.name || c.type) === msg.channelName
+    );
+    const name =
+      channelConfig?.senderAgents?.[msg.senderId] ||
+      channelConfig?.agent ||
+      DEFAULT_AGENT;
+
+    const agent = this.agents.get(name);
+    if (!agent) {
+      logger.warn(`Unknown agent profile "${name}" for ${msg.channelName}, using default`);
+      return this.defaultAgent;
+    }
+    return agent;
   }
 
   private setupMiddleware(): void {
     this.app.use(helmet({ contentSecurityPolicy: false }));
     this.app.use(cors());
+    // Webhooks keep the exact bytes for signature verification and are parsed afterwards
+    this.app.use('/api/hooks', express.raw({ type: '*/*', limit: '10mb' }));
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true }));
 
@@ -49,26 +285,148 @@ export class GatewayServer {
     });
   }
 
-  private authenticate(req: Request, res: Response, next: NextFunction): void {
-    const token = this.config.gateway.auth.token;
-    if (!token) {
+  /** Middleware that requires a valid API token carrying the given scope. */
+  private requireScope(scope: ApiScope) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!this.apiTokens.isAuthRequired()) {
+        if (this.checkApiRateLimit(`ip:${req.ip}`, res)) next();
+        return;
+      }
+
+      const authHeader = req.headers.authorization;
+      const queryToken = req.query.token as string;
+      const bodyToken = (req.body as any)?.token;
+
+      const providedToken =
+        authHeader?.replace('Bearer ', '') || queryToken || bodyToken;
+
+      const result = this.apiTokens.authenticate(providedToken);
+      if (!result.ok) {
+        res.status(401).json({ error: result.error });
+        return;
+      }
+      if (!result.identity.scopes.includes(scope)) {
+        res.status(403).json({ error: `Token ${result.identity.name} lacks the "${scope}" scope` });
+        return;
+      }
+
+      if (!this.checkApiRateLimit(`token:${result.identity.name}`, res)) return;
+      res.locals.identity = result.identity;
       next();
-      return;
-    }
+    };
+  }
 
-    const authHeader = req.headers.authorization;
-    const queryToken = req.query.token as string;
-    const bodyToken = (req.body as any)?.token;
+  /** The requireScope checks for an event stream connection, which is not an Express request. */
+  private authorizeEventStream(req: http.IncomingMessage): UpgradeAuthResult {
+    const tooMany: UpgradeAuthResult = {
+      ok: false,
+      status: 429,
+      error: 'Too many requests, please slow down',
+    };
+    if (!this.apiTokens.isAuthRequired()) {
+      const allowed = this.apiLimiter.hit(`ip:${req.socket.remoteAddress}`).allowed;
+      return allowed ? { ok: true, name: 'anonymous' } : tooMany;
+    }
 
+    const url = new URL(req.url || '', 'http://localhost');
     const providedToken =
-      authHeader?.replace('Bearer ', '') || queryToken || bodyToken;
+      req.headers.authorization?.replace('Bearer ', '') || url.searchParams.get('token') || undefined;
 
-    if (providedToken !== token) {
-      res.status(401).json({ error: 'Invalid authentication token' });
-      return;
+    const result = this.apiTokens.authenticate(providedToken);
+    if (!result.ok) {
+      return { ok: false, status: 401, error: result.error };
+    }
+    const { name, scopes } = result.identity;
+    if (!scopes.includes('events')) {
+      return { ok: false, status: 403, error: `Token ${name} lacks the "events" scope` };
+    }
+    return this.apiLimiter.hit(`token:${name}`).allowed ? { ok: true, name } : tooMany;
+  }
+
+  /** Counts a request against the API limit; sends a 429 and returns false when over it. */
+  private checkApiRateLimit(key: string, res: Response): boolean {
+    const result = this.apiLimiter.hit(key);
+    if (result.allowed) return true;
+    res.setHeader('Retry-After', String(Math.ceil(result.retryAfterMs / 1000)));
+    res.status(429).json({ error: 'Too many requests, please slow down' });
+    return false;
+  }
+
+  /** Takes a run slot for an HTTP request; sends a 429 and returns false when none is free. */
+  private admitApiRun(res: Response): boolean {
+    if (this.runLimiter.tryAcquire()) return true;
+    res.setHeader('Retry-After', '30');
+    res.status(429).json({ error: 'Too many agent runs in progress, try again shortly' });
+    return false;
+  }
+
+  /** Queues a run that already holds a run slot and frees the slot when it settles. */
+  private queueRun<T>(conversationId: string, task: () => Promise<T>): Promise<T> {
+    return this.runQueue
+      .run(conversationId, task)
+      .finally(() => this.runLimiter.release());
+  }
+
+  /**
+   * queueRun() for a streamed response: when the client disconnects, the
+   * run is cancelled like a stop request, or skipped if it has not started.
+   */
+  private queueStreamRun(
+    conversationId: string,
+    res: Response,
+    task: () => Promise<string>
+  ): Promise<string> {
+    let running = false;
+    let disconnected = false;
+    res.on('close', () => {
+      if (res.writableFinished) return;
+      disconnected = true;
+      if (running) {
+        logger.info(`Client disconnected, cancelling the run in ${conversationId}`);
+        this.cancelRun(conversationId);
+      }
+    });
+    return this.queueRun(conversationId, async () => {
+      if (disconnected) return '';
+      running = true;
+      try {
+        return await task();
+      } finally {
+        running = false;
+      }
+    });
+  }
+
+  /**
+   * Remembers the model named in an API request for its conversation. Sends
+   * a 400 and returns false when the model is not offered by the provider.
+   */
+  private async applyRequestModel(
+    agent: Agent,
+    conversationId: string,
+    model: unknown,
+    res: Response
+  ): Promise<boolean> {
+    if (model === undefined || model === null || model === '') return true;
+    if (typeof model !== 'string') {
+      res.status(400).json({ error: 'model must be a string' });
+      return false;
     }
+    if (model === agent.getModel(conversationId)) return true;
 
-    next();
+    try {
+      await agent.setModel(conversationId, model);
+      return true;
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return false;
+    }
+  }
+
+  /** The profile that last ran the conversation, or the default one. */
+  private agentForConversation(conversationId: string): Agent {
+    const name = this.conversationStore.getInfo(conversationId)?.agent;
+    return (name && this.agents.get(name)) || this.defaultAgent;
   }
 
   private setupRoutes(): void {
@@ -82,25 +440,96 @@ export class GatewayServer {
       res.send(this.getWebUI());
     });
 
+    // Webhooks authenticate with their own secret instead of the gateway token
+    this.app.post('/api/hooks/:id', (req: Request, res: Response) => {
+      const hook = this.webhooks.get(req.params.id);
+      if (!hook) {
+        res.status(404).json({ error: `Webhook not found: ${req.params.id}` });
+        return;
+      }
+
+      const webhookRequest: WebhookRequest = {
+        headers: req.headers,
+        query: req.query as Record<string, unknown>,
+        rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.from(''),
+        payload: undefined,
+      };
+      if (!this.webhooks.verify(hook, webhookRequest)) {
+        logger.warn(`Rejected webhook ${hook.id}: invalid secret or signature`);
+        res.status(401).json({ error: 'Invalid webhook secret or signature' });
+        return;
+      }
+      try {
+        webhookRequest.payload = parseWebhookPayload(webhookRequest);
+      } catch (err: any) {
+        res.status(400).json({ error: `Invalid webhook payload: ${err.message}` });
+        return;
+      }
+
+      const agent = this.agents.get(hook.agent || DEFAULT_AGENT);
+      if (!agent) {
+        res.status(500).json({ error: `Unknown agent profile: ${hook.agent}` });
+        return;
+      }
+      if (!this.checkApiRateLimit(`hook:${hook.id}`, res) || !this.admitApiRun(res)) {
+        return;
+      }
+
+      const convId = this.webhooks.getConversationId(hook);
+      const prompt = this.webhooks.renderPrompt(hook, webhookRequest);
+      const origin: RunOrigin = hook.channel
+        ? { channelName: hook.channel, senderId: hook.recipient }
+        : {};
+
+      logger.info(`Webhook ${hook.id} accepted, running in ${convId}`);
+      res.status(202).json({ status: 'accepted', conversation_id: convId });
+
+      this.queueRun(convId, () =>
+        agent.chat(convId, prompt, { origin })
+      )
+        .then(async (response) => {
+          if (hook.channel && hook.recipient && response) {
+            await this.sendToOrigin(convId, origin, response);
+          }
+        })
+        .catch((err) => {
+          logger.error(`Webhook ${hook.id} run failed: ${err.message || err}`);
+        });
+    });
+
     // Protected routes
     this.app.post(
       '/api/chat',
-      this.authenticate.bind(this),
+      this.requireScope('chat'),
       async (req: Request, res: Response) => {
         try {
-          const { message, conversation_id } = req.body;
+          const { message, conversation_id, agent: agentName, model } = req.body;
 
           if (!message) {
             res.status(400).json({ error: 'Message is required' });
             return;
           }
 
+          const agent = this.agents.get(agentName || DEFAULT_AGENT);
+          if (!agent) {
+            res.status(400).json({ error: `Unknown agent profile: ${agentName}` });
+            return;
+          }
+
           const convId = conversation_id || uuidv4();
-          const response = await this.agent.chat(convId, message);
+          // Admitted first, so a rejected request leaves the conversation's model as it was
+          if (!this.admitApiRun(res)) return;
+          if (!(await this.applyRequestModel(agent, convId, model, res))) {
+            this.runLimiter.release();
+            return;
+          }
+
+          const response = await this.queueRun(convId, () => agent.chat(convId, message));
 
           res.json({
             response,
             conversation_id: convId,
+            model: agent.getModel(convId),
           });
         } catch (err: any) {
           logger.error(`Chat error: ${err.message}`);
@@ -109,23 +538,236 @@ export class GatewayServer {
       }
     );
 
+    this.app.post(
+      '/api/chat/stream',
+      this.requireScope('chat'),
+      async (req: Request, res: Response) => {
+        const { message, conversation_id, agent: agentName, model } = req.body;
+
+        if (!message) {
+          res.status(400).json({ error: 'Message is required' });
+          return;
+        }
+
+        const agent = this.agents.get(agentName || DEFAULT_AGENT);
+        if (!agent) {
+          res.status(400).json({ error: `Unknown agent profile: ${agentName}` });
+          return;
+        }
+
+        const convId = conversation_id || uuidv4();
+        if (!this.admitApiRun(res)) return;
+        if (!(await this.applyRequestModel(agent, convId, model, res))) {
+          this.runLimiter.release();
+          return;
+        }
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+
+        let closed = false;
+        res.on('close', () => {
+          closed = true;
+        });
+
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        send('start', { conversation_id: convId, model: agent.getModel(convId) });
+
+        const ahead = this.runQueue.getDepth(convId);
+        if (ahead > 0) {
+          send('queued', { conversation_id: convId, ahead });
+        }
+
+        try {
+          const response = await this.queueStreamRun(convId, res, () =>
+            agent.chat(convId, message, {
+              onEvent: (event) => send(event.type, event),
+              requestApproval: (request) =>
+                this.requestApproval(
+                  convId,
+                  request,
+                  (approval) => send('approval_required', approval),
+                  res.locals.identity?.name
+                ),
+            })
+          );
+          send('done', { response, conversation_id: convId });
+        } catch (err: any) {
+          logger.error(`Chat stream error: ${err.message}`);
+          send('error', { error: err.message });
+        }
+
+        res.end();
+      }
+    );
+
+    this.app.post(
+      '/api/chat/:conversation_id/cancel',
+      this.requireScope('chat'),
+      (req: Request, res: Response) => {
+        const convId = req.params.conversation_id;
+        if (!this.cancelRun(convId)) {
+          res.status(404).json({ error: `No active run for conversation: ${convId}` });
+          return;
+        }
+        res.json({ status: 'cancelled', conversation_id: convId });
+      }
+    );
+
+    this.app.get(
+      '/api/chat/:conversation_id/queue',
+      this.requireScope('chat'),
+      (req: Request, res: Response) => {
+        res.json({
+          conversation_id: req.params.conversation_id,
+          depth: this.runQueue.getDepth(req.params.conversation_id),
+        });
+      }
+    );
+
+    this.app.get(
+      '/api/approvals',
+      this.requireScope('approvals'),
+      (_req: Request, res: Response) => {
+        res.json({ approvals: this.approvals.list() });
+      }
+    );
+
+    this.app.post(
+      '/api/approvals/:id',
+      this.requireScope('chat'),
+      (req: Request, res: Response) => {
+        const { approved } = req.body;
+        if (typeof approved !== 'boolean') {
+          res.status(400).json({ error: 'approved (boolean) is required' });
+          return;
+        }
+        const approval = this.approvals.get(req.params.id);
+        if (!approval) {
+          res.status(404).json({ error: `No pending approval: ${req.params.id}` });
+          return;
+        }
+        // Without the approvals scope, a token may only answer for the runs it started
+        const identity: ApiIdentity | undefined = res.locals.identity;
+        if (
+          identity &&
+          !identity.scopes.includes('approvals') &&
+          identity.name !== approval.requestedBy
+        ) {
+          res.status(403).json({ error: `Token ${identity.name} lacks the "approvals" scope` });
+          return;
+        }
+        this.approvals.resolve(approval.id, approved);
+        res.json({ status: approved ? 'approved' : 'denied', id: req.params.id });
+      }
+    );
+
     this.app.post(
       '/api/chat/clear',
-      this.authenticate.bind(this),
+      this.requireScope('memory'),
       (req: Request, res: Response) => {
         const { conversation_id } = req.body;
         if (conversation_id) {
-          this.agent.clearConversation(conversation_id);
+          this.clearConversation(conversation_id);
         }
         res.json({ status: 'cleared' });
       }
     );
 
+    this.app.get(
+      '/api/conversations',
+      this.requireScope('memory'),
+      (req: Request, res: Response) => {
+        const { channel, sender, agent } = req.query as Record<string, string | undefined>;
+        const limit = parseInt(String(req.query.limit || ''), 10);
+        let conversations = this.conversationStore
+          .list()
+          .filter((c) => !channel || c.channel === channel)
+          .filter((c) => !sender || c.sender === sender)
+          .filter((c) => !agent || c.agent === agent);
+        if (limit > 0) {
+          conversations = conversations.slice(0, limit);
+        }
+        res.json({ conversations });
+      }
+    );
+
+    this.app.get(
+      '/api/conversations/:id',
+      this.requireScope('memory'),
+      (req: Request, res: Response) => {
+        const transcript = this.getTranscript(req.params.id);
+        if (!transcript) {
+          res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+          return;
+        }
+        res.json(transcript);
+      }
+    );
+
+    this.app.put(
+      '/api/conversations/:id/model',
+      this.requireScope('chat'),
+      async (req: Request, res: Response) => {
+        const { model } = req.body;
+        if (model !== null && (typeof model !== 'string' || !model)) {
+          res.status(400).json({ error: 'model must be a model name, or null for the default' });
+          return;
+        }
+        const agent = this.agentForConversation(req.params.id);
+        try {
+          await agent.setModel(req.params.id, model);
+        } catch (err: any) {
+          res.status(400).json({ error: err.message });
+          return;
+        }
+        res.json({
+          conversation_id: req.params.id,
+          model: agent.getModel(req.params.id),
+          default: agent.getModel(),
+        });
+      }
+    );
+
+    this.app.get(
+      '/api/conversations/:id/export',
+      this.requireScope('memory'),
+      (req: Request, res: Response) => {
+        const format = String(req.query.format || 'markdown');
+        if (format !== 'markdown' && format !== 'json') {
+          res.status(400).json({ error: 'format must be "markdown" or "json"' });
+          return;
+        }
+        const transcript = this.getTranscript(req.params.id);
+        if (!transcript) {
+          res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+          return;
+        }
+
+        const fileName = transcript.id.replace(/[^\w.-]+/g, '_');
+        if (format === 'json') {
+          res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+          res.type('application/json').send(JSON.stringify(transcript, null, 2));
+        } else {
+          res.setHeader('Content-Disposition', `attachment; filename="${fileName}.md"`);
+          res.type('text/markdown').send(formatTranscriptMarkdown(transcript));
+        }
+      }
+    );
+
     this.app.get(
       '/api/status',
-      this.authenticate.bind(this),
+      this.requireScope('status'),
       async (_req: Request, res: Response) => {
-        const connected = await this.agent.testConnection();
+        const connected = await this.defaultAgent.testConnection();
         res.json({
           status: 'running',
           llm: {
@@ -134,6 +776,13 @@ export class GatewayServer {
             model: this.config.llm.model,
           },
           channels: this.channelManager.getStatus(),
+          queues: this.runQueue.getStatus(),
+          rateLimits: {
+            api: this.apiLimiter.getStatus(),
+            channelSenders: this.senderLimiter.getStatus(),
+            runs: this.runLimiter.getStatus(),
+          },
+          eventStream: this.eventStream?.getStatus() || { clients: 0 },
           uptime: process.uptime(),
         });
       }
@@ -141,16 +790,123 @@ export class GatewayServer {
 
     this.app.get(
       '/api/models',
-      this.authenticate.bind(this),
-      async (_req: Request, res: Response) => {
-        const models = await this.agent.listModels();
-        res.json({ models, current: this.config.llm.model });
+      this.requireScope('status'),
+      async (req: Request, res: Response) => {
+        const conversationId = req.query.conversation_id as string | undefined;
+        const agent = conversationId ? this.agentForConversation(conversationId) : this.defaultAgent;
+        const models = await agent.listModels();
+        res.json({
+          models,
+          current: agent.getModel(conversationId),
+          default: agent.getModel(),
+        });
+      }
+    );
+
+    this.app.get(
+      '/api/agents',
+      this.requireScope('status'),
+      (_req: Request, res: Response) => {
+        const agents = Array.from(this.agents.values()).map((agent) => ({
+          name: agent.name,
+          model: agent.getModel(),
+          tools: agent.getToolNames(),
+        }));
+        res.json({ agents });
+      }
+    );
+
+    this.app.get(
+      '/api/audit',
+      this.requireScope('admin'),
+      (req: Request, res: Response) => {
+        const q = req.query as Record<string, string | undefined>;
+        if (q.type && q.type !== 'run' && q.type !== 'tool_call') {
+          res.status(400).json({ error: 'type must be "run" or "tool_call"' });
+          return;
+        }
+        const since = q.since ? Date.parse(q.since) : undefined;
+        const until = q.until ? Date.parse(q.until) : undefined;
+        if (Number.isNaN(since) || Number.isNaN(until)) {
+          res.status(400).json({ error: 'since and until must be ISO 8601 dates' });
+          return;
+        }
+
+        const filter: AuditQuery = {
+          type: q.type as AuditQuery['type'],
+          conversationId: q.conversation_id,
+          runId: q.run_id,
+          channel: q.channel,
+          sender: q.sender,
+          tool: q.tool,
+          since,
+          until,
+          limit: Math.min(parseInt(q.limit || '100', 10) || 100, 1000),
+        };
+        res.json({ entries: this.auditLog.query(filter) });
+      }
+    );
+
+    this.app.get(
+      '/api/usage',
+      this.requireScope('admin'),
+      (req: Request, res: Response) => {
+        const q = req.query as Record<string, string | undefined>;
+        const groupBy = (q.group_by || 'sender') as UsageDimension;
+        if (!USAGE_DIMENSIONS.includes(groupBy)) {
+          res.status(400).json({ error: `group_by must be one of: ${USAGE_DIMENSIONS.join(', ')}` });
+          return;
+        }
+        const totals = this.usageTracker.summarize(groupBy, {
+          since: q.since,
+          until: q.until,
+          conversationId: q.conversation_id,
+          sender: q.sender,
+          channel: q.channel,
+          model: q.model,
+        });
+        res.json({ group_by: groupBy, totals });
+      }
+    );
+
+    this.app.get(
+      '/api/usage/senders/:sender',
+      this.requireScope('admin'),
+      (req: Request, res: Response) => {
+        const sender = req.params.sender;
+        res.json({
+          sender,
+          used: this.usageTracker.getSenderUsage(sender),
+          quota: this.usageTracker.getQuota(sender),
+          exceeded: this.usageTracker.checkQuota(sender),
+        });
+      }
+    );
+
+    this.app.get(
+      '/api/schedules',
+      this.requireScope('admin'),
+      (req: Request, res: Response) => {
+        const conversationId = req.query.conversation_id as string | undefined;
+        res.json({ schedules: this.scheduler.list(conversationId) });
+      }
+    );
+
+    this.app.delete(
+      '/api/schedules/:id',
+      this.requireScope('admin'),
+      (req: Request, res: Response) => {
+        if (!this.scheduler.cancel(req.params.id)) {
+          res.status(404).json({ error: `Schedule not found: ${req.params.id}` });
+          return;
+        }
+        res.json({ status: 'cancelled', id: req.params.id });
       }
     );
 
     this.app.get(
       '/api/channels',
-      this.authenticate.bind(this),
+      this.requireScope('channels:admin'),
       (_req: Request, res: Response) => {
         res.json({
           channels: this.channelManager.listChannels(),
@@ -161,7 +917,7 @@ export class GatewayServer {
 
     this.app.post(
       '/api/channels/:name/start',
-      this.authenticate.bind(this),
+      this.requireScope('channels:admin'),
       async (req: Request, res: Response) => {
         try {
           await this.channelManager.startChannel(req.params.name);
@@ -173,9 +929,55 @@ export class GatewayServer {
       }
     );
 
+    this.app.post(
+      '/api/channels/:name/send',
+      this.requireScope('channels:admin'),
+      async (req: Request, res: Response) => {
+        const name = req.params.name;
+        const { recipient, text } = req.body;
+
+        if (!recipient || typeof recipient !== 'string') {
+          res.status(400).json({ error: 'recipient is required' });
+          return;
+        }
+        if (!text || typeof text !== 'string') {
+          res.status(400).json({ error: 'text is required' });
+          return;
+        }
+        if (!this.channelManager.hasChannel(name)) {
+          res.status(404).json({ error: `Channel not found: ${name}` });
+          return;
+        }
+        if (!this.channelManager.getStatus()[name]) {
+          res.status(503).json({ error: `Channel not connected: ${name}` });
+          return;
+        }
+        if (!this.channelManager.isValidRecipient(name, recipient)) {
+          res.status(400).json({ error: `Invalid recipient: ${recipient}` });
+          return;
+        }
+
+        try {
+          const messageId = await this.channelManager.send(name, {
+            recipientId: recipient,
+            text,
+          });
+          res.json({
+            status: 'sent',
+            channel: name,
+            recipient,
+            message_id: messageId || null,
+          });
+        } catch (err: any) {
+          logger.error(`Channel send error: ${err.message}`);
+          res.status(502).json({ error: err.message });
+        }
+      }
+    );
+
     this.app.post(
       '/api/channels/:name/stop',
-      this.authenticate.bind(this),
+      this.requireScope('channels:admin'),
       async (req: Request, res: Response) => {
         try {
           await this.channelManager.stopChannel(req.params.name);
@@ -188,6 +990,152 @@ export class GatewayServer {
     );
   }
 
+  /**
+   * OpenAI-compatible facade: every agent profile is a "model", and a
+   * completion is one Agent.chat run with the profile's tools and memory.
+   */
+  private setupOpenAIRoutes(): void {
+    this.app.get('/v1/models', this.requireScope('chat'), (_req: Request, res: Response) => {
+      res.json({
+        object: 'list',
+        data: Array.from(this.agents.keys()).map((name) => ({
+          id: name,
+          object: 'model',
+          created: STARTED_AT,
+          owned_by: 'openclaw',
+        })),
+      });
+    });
+
+    this.app.post(
+      '/v1/chat/completions',
+      this.requireScope('chat'),
+      async (req: Request, res: Response) => {
+        const body = req.body as OpenAIChatRequest;
+        const agent = this.agents.get(body.model);
+        if (!agent) {
+          res.status(404).json(
+            openAIError(
+              `The model ${body.model} does not exist`,
+              'invalid_request_error',
+              'model_not_found',
+              'model'
+            )
+          );
+          return;
+        }
+        if (!Array.isArray(body.messages)) {
+          res.status(400).json(
+            openAIError('messages must be an array', 'invalid_request_error', undefined, 'messages')
+          );
+          return;
+        }
+
+        // With a conversation id the gateway keeps the history; otherwise each request
+        // stands alone and its conversation is deleted when the run ends
+        const headerId = req.header('x-conversation-id');
+        const stateful = !!(headerId || body.user);
+        const convId = headerId || (body.user ? `openai-${body.user}` : `openai-${uuidv4()}`);
+        const prompt = buildAgentPrompt(body.messages, stateful);
+        if (!prompt) {
+          res.status(400).json(
+            openAIError(
+              'messages must include a user message',
+              'invalid_request_error',
+              undefined,
+              'messages'
+            )
+          );
+          return;
+        }
+
+        if (!this.runLimiter.tryAcquire()) {
+          res.setHeader('Retry-After', '30');
+          res.status(429).json(
+            openAIError('Too many agent runs in progress, try again shortly', 'rate_limit_error')
+          );
+          return;
+        }
+
+        const completionId = `chatcmpl-${uuidv4()}`;
+        const usage: OpenAIUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+        const options: ChatOptions = {
+          onUsage: (u) => addUsage(usage, u),
+          ephemeral: !stateful,
+        };
+        if (stateful) res.setHeader('X-Conversation-Id', convId);
+
+        if (!body.stream) {
+          try {
+            const response = await this.queueRun(convId, () => agent.chat(convId, prompt, options));
+            res.json(completionResponse(completionId, body.model, response, usage));
+          } catch (err: any) {
+            logger.error(`Chat completion error: ${err.message}`);
+            res.status(500).json(openAIError(err.message, 'server_error'));
+          }
+          return;
+        }
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+
+        let closed = false;
+        res.on('close', () => {
+          closed = true;
+        });
+        const write = (data: unknown) => {
+          if (!closed) res.write(`data: ${JSON.stringify(data)}\n\n`);
+        };
+
+        write(completionChunk(completionId, body.model, { role: 'assistant' }));
+
+        let streamed = false;
+        let streamedText = '';
+        let needsBreak = false;
+        try {
+          const response = await this.queueStreamRun(convId, res, () =>
+            agent.chat(convId, prompt, {
+              ...options,
+              onEvent: (event) => {
+                if (event.type === 'tool_start') {
+                  // Keep text from before and after a tool call apart
+                  needsBreak = streamed;
+                  streamedText = '';
+                } else if (event.type === 'token') {
+                  const content = needsBreak ? `\n\n${event.content}` : event.content;
+                  needsBreak = false;
+                  streamed = true;
+                  streamedText += event.content;
+                  write(completionChunk(completionId, body.model, { content }));
+                }
+              },
+            })
+          );
+          // The final text is not always what was streamed last, e.g. an error
+          // message or the summary of a run that hit its limits after a tool call
+          if (response && response !== streamedText) {
+            const content = streamed ? `\n\n${response}` : response;
+            write(completionChunk(completionId, body.model, { content }));
+          }
+          write(completionChunk(completionId, body.model, {}, 'stop'));
+          if (body.stream_options?.include_usage) {
+            write(usageChunk(completionId, body.model, usage));
+          }
+        } catch (err: any) {
+          logger.error(`Chat completion stream error: ${err.message}`);
+          write(openAIError(err.message, 'server_error'));
+        }
+
+        if (!closed) res.write('data: [DONE]\n\n');
+        res.end();
+      }
+    );
+  }
+
   async start(): Promise<void> {
     const bindAddress = this.config.gateway.bind === 'loopback' ? '127.0.0.1' : '0.0.0.0';
 
@@ -200,22 +1148,229 @@ export class GatewayServer {
             `Binding to ${this.config.gateway.bind}:${this.config.gateway.port}`
           );
 
+          this.eventStream = new EventStream(this.server!, this.events, (req) =>
+            this.authorizeEventStream(req)
+          );
+
           // Wire channels to agent and start them
           this.channelManager.setHandler(async (msg) => {
             const conversationId = `${msg.channelType}-${msg.senderId}`;
-            return this.agent.chat(conversationId, msg.text);
+            this.events.publish({
+              type: 'message_received',
+              conversationId,
+              channel: msg.channelName,
+              sender: msg.senderId,
+              senderName: msg.senderName,
+              text: msg.text,
+            });
+
+            // The channel delivers the returned text itself
+            const reply = await this.handleChannelMessage(msg, conversationId);
+            if (reply) {
+              this.events.publish({
+                type: 'reply_sent',
+                conversationId,
+                channel: msg.channelName,
+                recipient: msg.replyTo || msg.senderId,
+                text: reply,
+              });
+            }
+            return reply;
           });
           await this.channelManager.startAll();
 
+          this.scheduler.start((task) => this.runScheduledTask(task));
+
           resolve();
         }
       );
     });
   }
 
+  /** Answers a channel message; an empty string sends nothing back. */
+  private async handleChannelMessage(msg: IncomingMessage, conversationId: string): Promise<string> {
+    // Every message counts, commands and stop included: they write to the store too
+    const limit = this.senderLimiter.hit(`${msg.channelName}:${msg.senderId}`);
+    if (!limit.allowed) {
+      // Notify once per window so a flood doesn't get a flood of replies
+      return limit.firstRejection
+        ? `You're sending messages too quickly. Please wait ${Math.ceil(limit.retryAfterMs / 1000)} seconds and try again.`
+        : '';
+    }
+
+    // "stop" cancels the in-flight run instead of queueing behind it
+    if (STOP_KEYWORDS.includes(msg.text.trim().toLowerCase())) {
+      return this.cancelRun(conversationId)
+        ? 'Stopped.'
+        : 'Nothing is running right now.';
+    }
+
+    const agent = this.routeAgent(msg);
+    const commandReply = await this.commands.handle(msg.text, {
+      conversationId,
+      message: msg,
+      agent,
+    });
+    if (commandReply !== null) {
+      return commandReply;
+    }
+
+    // A reply to a pending approval answers it instead of starting a new run
+    const pending = this.approvals.findByConversation(conversationId);
+    if (pending) {
+      const answer = parseApprovalReply(msg.text);
+      if (answer === null) {
+        return `Please reply "yes" or "no" to approve running ${pending.tool} first.`;
+      }
+      this.approvals.resolve(pending.id, answer);
+      return '';
+    }
+
+    // Over-quota senders get a notice instead of an LLM call
+    const exceeded = this.usageTracker.checkQuota(msg.senderId);
+    if (exceeded) {
+      logger.info(`Sender ${msg.senderId} is over the ${exceeded.period} quota`);
+      return formatQuotaMessage(exceeded);
+    }
+
+    const origin: RunOrigin = {
+      channelType: msg.channelType,
+      channelName: msg.channelName,
+      senderId: msg.senderId,
+      replyTo: msg.replyTo,
+    };
+    if (!this.runLimiter.tryAcquire()) {
+      return "I'm busy with other requests right now. Please try again in a minute.";
+    }
+    return this.queueRun(conversationId, () =>
+      agent.chat(
+        conversationId,
+        msg.text,
+        this.channelRunOptions(conversationId, origin)
+      )
+    );
+  }
+
+  /** Run options for a conversation whose user is reachable on a channel. */
+  private channelRunOptions(conversationId: string, origin: RunOrigin): ChatOptions {
+    return {
+      origin,
+      requestApproval: (request) =>
+        this.requestApproval(conversationId, request, (approval) =>
+          this.sendToOrigin(conversationId, origin, formatApprovalPrompt(approval))
+        ),
+    };
+  }
+
+  private async sendToOrigin(
+    conversationId: string,
+    origin: RunOrigin,
+    text: string
+  ): Promise<void> {
+    if (!origin.channelName || !origin.senderId) {
+      throw new Error('Run has no channel to reply to');
+    }
+    const recipient = origin.replyTo || origin.senderId;
+    await this.channelManager.send(origin.channelName, { recipientId: recipient, text });
+    this.events.publish({
+      type: 'reply_sent',
+      conversationId,
+      channel: origin.channelName,
+      recipient,
+      text,
+    });
+  }
+
+  private async runScheduledTask(task: ScheduledTask): Promise<void> {
+    const agent = this.agents.get(task.agent) || this.defaultAgent;
+    const origin = task.origin || {};
+    const prompt = `[Scheduled task ${task.id}] ${task.prompt}`;
+
+    // Recurring tasks would repeat the quota notice on every tick, so only log
+    const exceeded = origin.senderId ? this.usageTracker.checkQuota(origin.senderId) : null;
+    if (exceeded) {
+      logger.info(`Skipping scheduled task ${task.id}: sender is over the ${exceeded.period} quota`);
+      return;
+    }
+
+    // Scheduled runs take a slot but are never dropped for lack of one
+    this.runLimiter.acquire();
+    const response = await this.queueRun(task.conversationId, () =>
+      agent.chat(
+        task.conversationId,
+        prompt,
+        origin.channelName
+          ? this.channelRunOptions(task.conversationId, origin)
+          : { origin }
+      )
+    );
+
+    if (origin.channelName && response) {
+      await this.sendToOrigin(task.conversationId, origin, response);
+      logger.info(`Delivered scheduled task ${task.id} to ${origin.channelName}`);
+    } else {
+      logger.info(`Scheduled task ${task.id} finished in conversation ${task.conversationId}`);
+    }
+  }
+
+  /** Adds a slash command for channel users, next to the built-in ones. */
+  registerCommand(command: ChatCommand): void {
+    this.commands.register(command);
+  }
+
+  private clearConversation(conversationId: string): void {
+    for (const agent of this.agents.values()) {
+      agent.clearConversation(conversationId);
+    }
+  }
+
+  private getTranscript(conversationId: string): Transcript | null {
+    const info = this.conversationStore.getInfo(conversationId);
+    if (!info) return null;
+    return { ...info, messages: this.conversationStore.load(conversationId) };
+  }
+
+  private cancelRun(conversationId: string): boolean {
+    let cancelled = false;
+    for (const agent of this.agents.values()) {
+      cancelled = agent.cancel(conversationId) || cancelled;
+    }
+    if (cancelled) {
+      this.approvals.cancelByConversation(conversationId);
+    }
+    return cancelled;
+  }
+
+  /**
+   * For runs that can show the request to someone. Runs without such a
+   * place (plain API calls, /v1, webhooks, scheduled tasks without a
+   * channel) pass no approver, and the agent denies at once instead of
+   * waiting out the timeout.
+   */
+  private requestApproval(
+    conversationId: string,
+    request: ApprovalRequest,
+    notify: (approval: PendingApproval) => void | Promise<void>,
+    requestedBy?: string
+  ): Promise<boolean> {
+    return this.approvals.request(
+      conversationId,
+      request,
+      this.config.approval.timeout,
+      notify,
+      requestedBy
+    );
+  }
+
   async stop(): Promise<void> {
-    await this.agent.cleanup();
+    this.scheduler.stop();
+    const configPath = ConfigManager.getConfigPath();
+    if (configPath) fs.unwatchFile(configPath);
+    for (const agent of this.agents.values()) {
+      await agent.cleanup();
+    }
     await this.channelManager.stopAll();
+    this.eventStream?.close();
 
     return new Promise((resolve) => {
       if (this.server) {
@@ -239,6 +1394,10 @@ export class GatewayServer {
     .header { background: #1a1a2e; padding: 16px 24px; border-bottom: 1px solid #333; display: flex; align-items: center; justify-content: space-between; }
     .header h1 { font-size: 20px; color: #00d4ff; }
     .status { font-size: 12px; padding: 4px 12px; border-radius: 12px; }
+    .header-actions { display: flex; align-items: center; gap: 12px; }
+    .header-actions button { padding: 4px 12px; border-radius: 12px; border: 1px solid #333; background: transparent; color: #ccc; font-size: 12px; cursor: pointer; }
+    .header-actions button:hover { border-color: #00d4ff; color: #00d4ff; }
+    .header-actions select { padding: 4px 8px; border-radius: 12px; border: 1px solid #333; background: #0a0a0a; color: #ccc; font-size: 12px; }
     .status.connected { background: #0a3d0a; color: #4caf50; }
     .status.disconnected { background: #3d0a0a; color: #f44336; }
     .chat-container { flex: 1; overflow-y: auto; padding: 24px; }
@@ -249,6 +1408,16 @@ export class GatewayServer {
     .message.assistant .bubble { background: #1a1a2e; color: #e0e0e0; border-bottom-left-radius: 4px; border: 1px solid #333; }
     .message .label { font-size: 11px; color: #888; margin-bottom: 4px; }
     .message.user .label { text-align: right; }
+    .tool-event { margin: 0 0 16px; max-width: 80%; font-size: 12px; color: #888; }
+    .tool-event summary { cursor: pointer; font-family: monospace; }
+    .tool-event.running summary { color: #00d4ff; }
+    .approval { margin: 0 0 16px; max-width: 80%; padding: 12px 16px; border-radius: 12px; border: 1px solid #8a6d00; background: #2a2200; color: #ffd54f; font-size: 13px; }
+    .approval pre { margin: 8px 0; padding: 8px 12px; background: #111; border-radius: 8px; color: #e0e0e0; white-space: pre-wrap; word-wrap: break-word; max-height: 200px; overflow: auto; }
+    .approval-buttons { display: flex; gap: 8px; }
+    .approval-buttons button { padding: 6px 16px; border-radius: 6px; border: none; background: #4caf50; color: #000; font-weight: 600; cursor: pointer; }
+    .approval-buttons button.deny { background: #f44336; }
+    .approval-buttons button:disabled { background: #333; color: #666; cursor: not-allowed; }
+    .tool-event pre { margin-top: 8px; padding: 8px 12px; background: #111; border: 1px solid #333; border-radius: 8px; max-height: 240px; overflow: auto; white-space: pre-wrap; word-wrap: break-word; }
     .input-area { padding: 16px 24px; background: #111; border-top: 1px solid #333; }
     .input-row { display: flex; gap: 12px; max-width: 900px; margin: 0 auto; }
     .input-row input { flex: 1; padding: 12px 16px; border-radius: 8px; border: 1px solid #333; background: #1a1a1a; color: #fff; font-size: 14px; outline: none; }
@@ -256,6 +1425,8 @@ export class GatewayServer {
     .input-row button { padding: 12px 24px; border-radius: 8px; border: none; background: #00d4ff; color: #000; font-weight: 600; cursor: pointer; font-size: 14px; }
     .input-row button:hover { background: #00b8d9; }
     .input-row button:disabled { background: #333; color: #666; cursor: not-allowed; }
+    .input-row button.stop { background: #f44336; color: #fff; }
+    .input-row button.stop:hover { background: #d32f2f; }
     .auth-screen { display: flex; align-items: center; justify-content: center; height: 100vh; }
     .auth-box { background: #1a1a2e; padding: 32px; border-radius: 12px; border: 1px solid #333; width: 360px; }
     .auth-box h2 { margin-bottom: 16px; color: #00d4ff; }
@@ -275,19 +1446,24 @@ export class GatewayServer {
   <div id="main" style="display:none;height:100vh;flex-direction:column;">
     <div class="header">
       <h1>OpenClaw</h1>
-      <span id="status" class="status disconnected">checking...</span>
+      <div class="header-actions">
+        <select id="model-select" title="Model for this conversation" onchange="changeModel()"></select>
+        <button onclick="newConversation()">New chat</button>
+        <span id="status" class="status disconnected">checking...</span>
+      </div>
     </div>
     <div class="chat-container" id="chat"></div>
     <div class="input-area">
       <div class="input-row">
         <input type="text" id="message-input" placeholder="Ask OpenClaw anything..." onkeydown="if(event.key==='Enter'&&!event.shiftKey)sendMessage()">
         <button id="send-btn" onclick="sendMessage()">Send</button>
+        <button id="stop-btn" class="stop" onclick="stopRun()" style="display:none">Stop</button>
       </div>
     </div>
   </div>
   <script>
     let token = localStorage.getItem('openclaw_token') || '';
-    let conversationId = null;
+    let conversationId = localStorage.getItem('openclaw_conversation');
     if (token) authenticate(true);
 
     async function authenticate(auto) {
@@ -303,6 +1479,8 @@ export class GatewayServer {
           const st = document.getElementById('status');
           st.textContent = data.llm.connected ? 'Connected - ' + data.llm.model : 'LLM Disconnected';
           st.className = 'status ' + (data.llm.connected ? 'connected' : 'disconnected');
+          if (conversationId) loadConversation();
+          loadModels();
         } else {
           if (!auto) alert('Invalid token');
         }
@@ -318,28 +1496,242 @@ export class GatewayServer {
       input.value = '';
       addMessage('user', text);
       document.getElementById('send-btn').disabled = true;
+      document.getElementById('stop-btn').style.display = '';
+      let bubble = null;
       try {
-        const res = await fetch('/api/chat', {
+        const res = await fetch('/api/chat/stream', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer ' + token },
-          body: JSON.stringify({ message: text, conversation_id: conversationId })
+          body: JSON.stringify({
+            message: text,
+            conversation_id: conversationId,
+            model: document.getElementById('model-select').value || undefined
+          })
         });
-        const data = await res.json();
-        conversationId = data.conversation_id;
-        addMessage('assistant', data.response || data.error);
+        if (!res.ok || !res.body) {
+          const data = await res.json().catch(() => ({}));
+          addMessage('assistant', data.error || ('Request failed (' + res.status + ')'));
+        } else {
+          await readStream(res.body, (event, data) => {
+            if (event === 'start') {
+              setConversation(data.conversation_id);
+            } else if (event === 'token') {
+              if (!bubble) bubble = addMessage('assistant', '');
+              bubble.textContent += data.content;
+              scrollChat();
+            } else if (event === 'tool_start') {
+              bubble = null;
+              addToolEvent(data);
+            } else if (event === 'approval_required') {
+              bubble = null;
+              addApprovalPrompt(data);
+            } else if (event === 'tool_result') {
+              finishToolEvent(data);
+            } else if (event === 'done') {
+              setConversation(data.conversation_id);
+              if (!bubble) bubble = addMessage('assistant', '');
+              bubble.textContent = data.response;
+              scrollChat();
+            } else if (event === 'error') {
+              addMessage('assistant', 'Error: ' + data.error);
+            }
+          });
+        }
       } catch(e) {
         addMessage('assistant', 'Error: ' + e.message);
       }
       document.getElementById('send-btn').disabled = false;
+      document.getElementById('stop-btn').style.display = 'none';
       input.focus();
     }
 
+    function setConversation(id) {
+      conversationId = id;
+      localStorage.setItem('openclaw_conversation', id);
+    }
+
+    function newConversation() {
+      conversationId = null;
+      localStorage.removeItem('openclaw_conversation');
+      document.getElementById('chat').innerHTML = '';
+      loadModels();
+    }
+
+    async function loadModels() {
+      const select = document.getElementById('model-select');
+      try {
+        const query = conversationId ? '?conversation_id=' + encodeURIComponent(conversationId) : '';
+        const res = await fetch('/api/models' + query, { headers: { 'Authorization': 'Bearer ' + token } });
+        if (!res.ok) return;
+        const data = await res.json();
+        const models = data.models.includes(data.current) ? data.models : [data.current].concat(data.models);
+        select.innerHTML = '';
+        for (const name of models) {
+          const option = document.createElement('option');
+          option.value = name;
+          option.textContent = name === data.default ? name + ' (default)' : name;
+          select.appendChild(option);
+        }
+        select.value = data.current;
+      } catch(e) {}
+    }
+
+    async function changeModel() {
+      // A new conversation sends the choice with its first message
+      if (!conversationId) return;
+      const select = document.getElementById('model-select');
+      try {
+        const res = await fetch('/api/conversations/' + encodeURIComponent(conversationId) + '/model', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer ' + token },
+          body: JSON.stringify({ model: select.value })
+        });
+        const data = await res.json();
+        if (!res.ok) addMessage('assistant', 'Error: ' + data.error);
+      } catch(e) {
+        addMessage('assistant', 'Error: ' + e.message);
+      }
+      loadModels();
+    }
+
+    async function loadConversation() {
+      try {
+        const res = await fetch('/api/conversations/' + encodeURIComponent(conversationId), {
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+        if (res.status === 404) return newConversation();
+        if (!res.ok) return;
+        const data = await res.json();
+        document.getElementById('chat').innerHTML = '';
+        for (const m of data.messages) {
+          if (m.role === 'user') {
+            addMessage('user', m.content);
+          } else if (m.role === 'assistant') {
+            if (m.content) addMessage('assistant', m.content);
+            for (const call of m.tool_calls || []) {
+              let args = call.function.arguments;
+              try { args = JSON.parse(args); } catch(e) {}
+              addToolEvent({ id: call.id, name: call.function.name, arguments: args });
+            }
+          } else if (m.role === 'tool') {
+            finishToolEvent({ id: m.tool_call_id, result: m.content });
+          }
+        }
+      } catch(e) {
+        addMessage('assistant', 'Error: ' + e.message);
+      }
+    }
+
+    async function stopRun() {
+      if (!conversationId) return;
+      try {
+        await fetch('/api/chat/' + encodeURIComponent(conversationId) + '/cancel', {
+          method: 'POST',
+          headers: { 'Authorization': 'Bearer ' + token }
+        });
+      } catch(e) {
+        addMessage('assistant', 'Error: ' + e.message);
+      }
+    }
+
+    async function readStream(body, onEvent) {
+      const reader = body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let idx;
+        while ((idx = buffer.indexOf('\\n\\n')) >= 0) {
+          const block = buffer.slice(0, idx);
+          buffer = buffer.slice(idx + 2);
+          let event = 'message';
+          let data = '';
+          for (const line of block.split('\\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) data += line.slice(5).trim();
+          }
+          if (data) onEvent(event, JSON.parse(data));
+        }
+      }
+    }
+
     function addMessage(role, text) {
       const chat = document.getElementById('chat');
       const div = document.createElement('div');
       div.className = 'message ' + role;
       div.innerHTML = '<div class="label">' + (role === 'user' ? 'You' : 'OpenClaw') + '</div><div class="bubble">' + escapeHtml(text) + '</div>';
       chat.appendChild(div);
+      scrollChat();
+      return div.querySelector('.bubble');
+    }
+
+    function addToolEvent(data) {
+      const chat = document.getElementById('chat');
+      const details = document.createElement('details');
+      details.className = 'tool-event running';
+      details.id = 'tool-' + data.id;
+      const summary = document.createElement('summary');
+      summary.textContent = 'Running ' + data.name + ' ' + JSON.stringify(data.arguments).slice(0, 120);
+      const pre = document.createElement('pre');
+      details.appendChild(summary);
+      details.appendChild(pre);
+      chat.appendChild(details);
+      scrollChat();
+    }
+
+    function finishToolEvent(data) {
+      const details = document.getElementById('tool-' + data.id);
+      if (!details) return;
+      details.className = 'tool-event';
+      details.querySelector('summary').textContent = details.querySelector('summary').textContent.replace(/^Running/, 'Ran');
+      details.querySelector('pre').textContent = data.result;
+    }
+
+    function addApprovalPrompt(data) {
+      const chat = document.getElementById('chat');
+      const box = document.createElement('div');
+      box.className = 'approval';
+      const title = document.createElement('div');
+      title.textContent = 'Approval needed to run ' + data.tool + ' (' + data.reason + ')';
+      const pre = document.createElement('pre');
+      pre.textContent = JSON.stringify(data.arguments, null, 2);
+      const buttons = document.createElement('div');
+      buttons.className = 'approval-buttons';
+      const approve = document.createElement('button');
+      approve.textContent = 'Approve';
+      const deny = document.createElement('button');
+      deny.textContent = 'Deny';
+      deny.className = 'deny';
+      approve.onclick = () => answerApproval(data.id, true, buttons);
+      deny.onclick = () => answerApproval(data.id, false, buttons);
+      buttons.appendChild(approve);
+      buttons.appendChild(deny);
+      box.appendChild(title);
+      box.appendChild(pre);
+      box.appendChild(buttons);
+      chat.appendChild(box);
+      scrollChat();
+    }
+
+    async function answerApproval(id, approved, buttons) {
+      buttons.querySelectorAll('button').forEach(b => b.disabled = true);
+      try {
+        const res = await fetch('/api/approvals/' + id, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer ' + token },
+          body: JSON.stringify({ approved })
+        });
+        const data = await res.json();
+        buttons.textContent = res.ok ? (approved ? 'Approved' : 'Denied') : (data.error || 'Failed');
+      } catch(e) {
+        buttons.textContent = 'Error: ' + e.message;
+      }
+    }
+
+    function scrollChat() {
+      const chat = document.getElementById('chat');
       chat.scrollTop = chat.scrollHeight;
     }
 
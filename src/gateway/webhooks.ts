@@ -0,0 +1,131 @@
+import * as crypto from 'crypto';
+import * as querystring from 'querystring';
+import { WebhookConfig } from '../config/configManager';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('webhooks');
+
+// Keeps a whole-payload interpolation from flooding the prompt
+const MAX_PAYLOAD_CHARS = 8000;
+
+export interface WebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  rawBody: Buffer;
+  payload: unknown;
+}
+
+/**
+ * Parses a verified request body by its content type: JSON, form fields
+ * (GitHub's form deliveries carry the JSON in a "payload" field) or, for
+ * anything else, the body as text. Throws on malformed JSON.
+ */
+export function parseWebhookPayload(req: WebhookRequest): unknown {
+  if (req.rawBody.length === 0) return {};
+  const contentType = (header(req, 'content-type') || '').split(';')[0].trim().toLowerCase();
+  const text = req.rawBody.toString('utf-8');
+
+  if (contentType === 'application/json' || contentType.endsWith('+json')) {
+    return JSON.parse(text);
+  }
+  if (contentType === 'application/x-www-form-urlencoded') {
+    const fields = querystring.parse(text);
+    if (typeof fields.payload === 'string' && Object.keys(fields).length === 1) {
+      return JSON.parse(fields.payload);
+    }
+    return fields;
+  }
+  return text;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+function header(req: WebhookRequest, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function lookup(root: unknown, dottedPath: string): unknown {
+  let current: any = root;
+  for (const key of dottedPath.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  const json = JSON.stringify(value, null, 2);
+  return json.length > MAX_PAYLOAD_CHARS
+    ? `${json.substring(0, MAX_PAYLOAD_CHARS)}\n[...truncated]`
+    : json;
+}
+
+export class WebhookManager {
+  private hooks: Map<string, WebhookConfig> = new Map();
+
+  constructor(configs: WebhookConfig[]) {
+    for (const hook of configs) {
+      if (!hook.secret) {
+        logger.warn(`Webhook ${hook.id} has no secret and will reject every request`);
+      }
+      this.hooks.set(hook.id, hook);
+      logger.info(`Webhook registered: /api/hooks/${hook.id}`);
+    }
+  }
+
+  get(id: string): WebhookConfig | null {
+    return this.hooks.get(id) || null;
+  }
+
+  /**
+   * "token" hooks expect the secret in the X-Webhook-Secret header or the
+   * ?secret= query parameter. "hmac-sha256" hooks expect a GitHub-style
+   * "sha256=<hex>" signature of the raw body (X-Hub-Signature-256 by default).
+   */
+  verify(hook: WebhookConfig, req: WebhookRequest): boolean {
+    if (!hook.secret) return false;
+
+    if (hook.signature === 'hmac-sha256') {
+      const provided = header(req, hook.signatureHeader || 'x-hub-signature-256');
+      if (!provided) return false;
+      const expected =
+        'sha256=' +
+        crypto.createHmac('sha256', hook.secret).update(req.rawBody).digest('hex');
+      return safeEqual(provided.trim(), expected);
+    }
+
+    const provided =
+      header(req, 'x-webhook-secret') ||
+      (typeof req.query.secret === 'string' ? req.query.secret : undefined);
+    return !!provided && safeEqual(provided, hook.secret);
+  }
+
+  /**
+   * Fills {{payload}} (the whole JSON body), {{payload.some.field}} and
+   * {{headers.name}} placeholders in the hook's prompt template.
+   */
+  renderPrompt(hook: WebhookConfig, req: WebhookRequest): string {
+    return hook.promptTemplate.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, key: string) => {
+      if (key === 'payload') return stringify(req.payload);
+      if (key.startsWith('payload.')) {
+        return stringify(lookup(req.payload, key.slice('payload.'.length)));
+      }
+      if (key.startsWith('headers.')) {
+        return header(req, key.slice('headers.'.length)) || '';
+      }
+      if (key === 'hook.id') return hook.id;
+      return '';
+    });
+  }
+
+  getConversationId(hook: WebhookConfig): string {
+    return hook.conversationId || `webhook-${hook.id}`;
+  }
+}
@@ -17,7 +17,13 @@ async function main(): Promise<void> {
 
   logger.info('Starting OpenClaw...');
 
-  const config = ConfigManager.load();
+  let config;
+  try {
+    config = ConfigManager.load();
+  } catch (err: any) {
+    logger.error(err.message);
+    process.exit(1);
+  }
   logger.info(`Binding to ${config.gateway.bind}:${config.gateway.port}`);
   logger.info(`Connecting to LLM: ${config.llm.provider} at ${config.llm.baseURL}`);
   logger.info(`Model: ${config.llm.model}`);
@@ -1,4 +1,10 @@
-import fetch from 'node-fetch';
+import fetch, { Response } from 'node-fetch';
+import {
+  ToolCallingMode,
+  parseToolCalls,
+  toPromptedMessages,
+  toolCallingMode,
+} from './promptedTools';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.create('llm');
@@ -37,6 +43,33 @@ export interface LLMResponse {
     completion_tokens: number;
     total_tokens: number;
   };
+  /** The backend that answered, which is a fallback when the primary failed. */
+  backend?: {
+    provider: string;
+    baseURL: string;
+    model: string;
+    /** Requests made to this backend, including retries. */
+    attempts: number;
+    fallback: boolean;
+  };
+}
+
+/** A provider and model to try when the primary one fails; unset fields are taken from it. */
+export interface LLMFallback {
+  provider?: string;
+  /** The primary apiKey is only reused when baseURL is not overridden. */
+  baseURL?: string;
+  model: string;
+  apiKey?: string;
+}
+
+export interface LLMRetryConfig {
+  /** Requests per backend, counting the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each one after it. */
+  initialDelayMs: number;
+  /** Longest delay; a longer Retry-After moves on to the next backend instead. */
+  maxDelayMs: number;
 }
 
 export interface LLMConfig {
@@ -47,6 +80,75 @@ export interface LLMConfig {
   maxTokens: number;
   input: string;
   apiKey?: string;
+  /**
+   * "prompted" for models without native function calling, keyed by model
+   * name, name without tag (e.g. "llama3.2") or "*". Native when unset.
+   */
+  toolCalling?: Record<string, ToolCallingMode>;
+  /** Time to wait for a response to start; 120000 when unset. */
+  timeoutMs?: number;
+  retries?: Partial<LLMRetryConfig>;
+  /** Tried in order when the primary backend fails. */
+  fallbacks?: LLMFallback[];
+}
+
+interface Backend {
+  provider: string;
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_RETRIES: LLMRetryConfig = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/** A failed request; transient ones (timeouts, network errors, 408, 429, 5xx) are retried. */
+class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly transient: boolean,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
+
+/** Retry-After in seconds or as an HTTP date. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with jitter, so parallel runs do not retry in lockstep. */
+function backoffDelay(attempt: number, retries: LLMRetryConfig): number {
+  const delay = retries.initialDelayMs * 2 ** (attempt - 1);
+  return Math.min(retries.maxDelayMs, Math.round(delay * (0.75 + Math.random() * 0.5)));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('LLM request aborted'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('LLM request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function describeBackend(backend: Backend): string {
+  return `${backend.provider}/${backend.model}`;
 }
 
 export class LLMProvider {
@@ -56,12 +158,18 @@ export class LLMProvider {
     this.config = config;
   }
 
-  private getHeaders(): Record<string, string> {
+  /** Applies reloaded settings; requests already in flight keep the old ones. */
+  updateConfig(config: LLMConfig): void {
+    this.config = config;
+  }
+
+  // No default for apiKey: a fallback on another host without a key of its own must get none
+  private getHeaders(apiKey: string | undefined): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
-    if (this.config.apiKey) {
-      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
     }
     return headers;
   }
@@ -70,60 +178,345 @@ export class LLMProvider {
     return this.config.provider === 'ollama';
   }
 
+  /**
+   * model overrides the configured model for this call. Transient errors
+   * are retried and the fallbacks tried in turn; response.backend tells
+   * which one answered.
+   */
   async chat(
     messages: ChatMessage[],
-    tools?: ToolDefinition[]
+    tools?: ToolDefinition[],
+    signal?: AbortSignal,
+    model?: string
   ): Promise<LLMResponse> {
-    const url = `${this.config.baseURL}/chat/completions`;
+    const sent = await this.send(messages, tools, false, signal, model);
+    return this.readCompletion(sent.response, tools, sent.metadata, sent.prompted);
+  }
+
+  /**
+   * Same as chat(), but requests an OpenAI-style SSE stream and reports
+   * content deltas through onToken as they arrive. Tool-call deltas are
+   * accumulated by index and returned in the final response. Only the
+   * request is retried; a stream that breaks off fails the call.
+   */
+  async chatStream(
+    messages: ChatMessage[],
+    tools: ToolDefinition[] | undefined,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<LLMResponse> {
+    const sent = await this.send(messages, tools, true, signal, model);
+    if (sent.prompted) {
+      // The raw text holds the call blocks, so it is only shown once they are parsed out
+      const result = await this.readCompletion(sent.response, tools, sent.metadata, true);
+      if (result.content) onToken(result.content);
+      return result;
+    }
+    const response = sent.response;
+
+    let content = '';
+    let finishReason = 'stop';
+    let usage: LLMResponse['usage'];
+    const toolCalls: ToolCall[] = [];
+    let buffer = '';
+
+    const handleEvent = (data: string) => {
+      if (data === '[DONE]') return;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        logger.warn(`Ignoring malformed stream chunk: ${data.substring(0, 200)}`);
+        return;
+      }
+
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (!choice) return;
+
+      if (choice.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      const delta = choice.delta || {};
+      if (delta.content) {
+        content += delta.content;
+        onToken(delta.content);
+      }
+
+      for (const tc of delta.tool_calls || []) {
+        const index = typeof tc.index === 'number' ? tc.index : toolCalls.length;
+        if (!toolCalls[index]) {
+          toolCalls[index] = {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' },
+          };
+        }
+        const target = toolCalls[index];
+        if (tc.id) target.id = tc.id;
+        if (tc.function?.name) target.function.name += tc.function.name;
+        if (tc.function?.arguments) target.function.arguments += tc.function.arguments;
+      }
+    };
+
+    for await (const raw of response.body as AsyncIterable<Buffer | string>) {
+      buffer += raw.toString();
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, boundary).replace(/\r$/, '');
+        buffer = buffer.slice(boundary + 1);
+        if (line.startsWith('data:')) {
+          handleEvent(line.slice(5).trim());
+        }
+      }
+    }
+    if (buffer.startsWith('data:')) {
+      handleEvent(buffer.slice(5).trim());
+    }
+
+    const completeToolCalls = toolCalls
+      .filter((tc) => tc && tc.function.name)
+      .map((tc, i) => ({ ...tc, id: tc.id || `call_${Date.now()}_${i}` }));
+
+    return {
+      content,
+      tool_calls: completeToolCalls.length > 0 ? completeToolCalls : undefined,
+      finish_reason: finishReason,
+      usage,
+      backend: sent.metadata,
+    };
+  }
 
+  private async readCompletion(
+    response: Response,
+    tools: ToolDefinition[] | undefined,
+    metadata: LLMResponse['backend'],
+    prompted: boolean
+  ): Promise<LLMResponse> {
+    const data = (await response.json()) as any;
+    const choice = data.choices?.[0];
+
+    if (!choice) {
+      throw new Error('No response from LLM');
+    }
+
+    const result: LLMResponse = {
+      content: choice.message?.content || '',
+      tool_calls: choice.message?.tool_calls,
+      finish_reason: choice.finish_reason || 'stop',
+      usage: data.usage,
+      backend: metadata,
+    };
+    return prompted ? this.extractToolCalls(result, tools) : result;
+  }
+
+  private isPrompted(model: string): boolean {
+    return toolCallingMode(this.config.toolCalling, model) === 'prompted';
+  }
+
+  /** The primary backend for the given model, then the fallbacks. */
+  private backends(model?: string): Backend[] {
+    const primary: Backend = {
+      provider: this.config.provider,
+      baseURL: this.config.baseURL,
+      model: model || this.config.model,
+      apiKey: this.config.apiKey,
+    };
+    const fallbacks = (this.config.fallbacks || []).map((f) => ({
+      provider: f.provider || primary.provider,
+      baseURL: f.baseURL || primary.baseURL,
+      model: f.model,
+      apiKey: f.apiKey ?? (f.baseURL ? undefined : primary.apiKey),
+    }));
+    return [primary, ...fallbacks];
+  }
+
+  /**
+   * Sends the request to the first backend that answers. Transient errors
+   * are retried on the same backend with backoff, honoring Retry-After;
+   * other errors, and transient ones that outlast the retries, move on to
+   * the next backend.
+   */
+  private async send(
+    messages: ChatMessage[],
+    tools: ToolDefinition[] | undefined,
+    stream: boolean,
+    signal: AbortSignal | undefined,
+    model: string | undefined
+  ): Promise<{
+    response: Response;
+    metadata: NonNullable<LLMResponse['backend']>;
+    prompted: boolean;
+  }> {
+    const retries = { ...DEFAULT_RETRIES, ...this.config.retries };
+    const backends = this.backends(model);
+    const errors: string[] = [];
+    let lastError: Error | undefined;
+
+    for (const [index, backend] of backends.entries()) {
+      // Each backend gets the tool calling mode configured for its own model
+      const prompted = this.isPrompted(backend.model);
+      const body = prompted
+        ? this.buildBody(toPromptedMessages(messages, tools), undefined, false, backend.model)
+        : this.buildBody(messages, tools, stream, backend.model);
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const response = await this.request(backend, body, signal);
+          if (index > 0) {
+            logger.warn(`Answered by fallback ${describeBackend(backend)}`);
+          }
+          const metadata = {
+            provider: backend.provider,
+            baseURL: backend.baseURL,
+            model: backend.model,
+            attempts: attempt,
+            fallback: index > 0,
+          };
+          return { response, metadata, prompted };
+        } catch (err: any) {
+          if (signal?.aborted) throw err;
+          lastError = err;
+
+          const retryable =
+            err instanceof LLMRequestError && err.transient && attempt < retries.maxAttempts;
+          const delay = retryable
+            ? (err.retryAfterMs ?? backoffDelay(attempt, retries))
+            : undefined;
+          if (delay === undefined || delay > retries.maxDelayMs) {
+            errors.push(`${describeBackend(backend)}: ${err.message}`);
+            break;
+          }
+          logger.warn(
+            `LLM request to ${describeBackend(backend)} failed (attempt ${attempt}/${retries.maxAttempts}): ` +
+              `${err.message}; retrying in ${delay}ms`
+          );
+          await sleep(delay, signal);
+        }
+      }
+
+      if (index < backends.length - 1) {
+        logger.warn(
+          `${describeBackend(backend)} failed, falling back to ${describeBackend(backends[index + 1])}`
+        );
+      }
+    }
+
+    if (backends.length === 1 && lastError) throw lastError;
+    throw new Error(`All LLM backends failed: ${errors.join('; ')}`);
+  }
+
+  /**
+   * Takes the <tool_call> blocks of a prompted-mode reply out of its text.
+   * Native-mode replies are never parsed, so JSON the model merely shows
+   * the user is not run as a call.
+   */
+  private extractToolCalls(
+    response: LLMResponse,
+    tools: ToolDefinition[] | undefined
+  ): LLMResponse {
+    if (!tools?.length || !response.content) return response;
+
+    const parsed = parseToolCalls(
+      response.content,
+      tools.map((t) => t.function.name)
+    );
+    if (parsed.toolCalls.length === 0) return response;
+    return { ...response, content: parsed.content, tool_calls: parsed.toolCalls };
+  }
+
+  private buildBody(
+    messages: ChatMessage[],
+    tools: ToolDefinition[] | undefined,
+    stream: boolean,
+    model?: string
+  ): Record<string, unknown> {
     const body: Record<string, unknown> = {
-      model: this.config.model,
+      model: model || this.config.model,
       messages,
       temperature: this.config.temperature,
       max_tokens: this.config.maxTokens,
-      stream: false,
+      stream,
     };
 
+    if (stream) {
+      // Ask for a final usage chunk so streamed runs are accounted like the rest
+      body.stream_options = { include_usage: true };
+    }
+
     if (tools && tools.length > 0) {
       body.tools = tools;
       body.tool_choice = 'auto';
     }
 
+    return body;
+  }
+
+  private async request(
+    backend: Backend,
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const url = `${backend.baseURL}/chat/completions`;
     logger.debug(`Sending request to ${url}`);
 
+    const timeoutMs = this.config.timeoutMs || DEFAULT_TIMEOUT_MS;
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    // Caller cancellation also aborts a stream that is still being read, so the
+    // listener stays until the body is consumed; retries must not pile them up
+    const onAbort = () => controller.abort();
+    const detach = () => signal?.removeEventListener('abort', onAbort);
+    if (signal) {
+      if (signal.aborted) controller.abort();
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
 
     let response;
     try {
       response = await fetch(url, {
         method: 'POST',
-        headers: this.getHeaders(),
+        headers: this.getHeaders(backend.apiKey),
         body: JSON.stringify(body),
         signal: controller.signal as any,
       });
+    } catch (err: any) {
+      detach();
+      if (signal?.aborted) throw err;
+      if (timedOut) {
+        throw new LLMRequestError(`LLM request timed out after ${timeoutMs}ms`, true);
+      }
+      throw new LLMRequestError(`LLM request failed: ${err.message}`, true);
     } finally {
       clearTimeout(timeout);
     }
 
+    response.body.once('end', detach);
+    response.body.once('error', detach);
+    response.body.once('close', detach);
+
     if (!response.ok) {
       const text = await response.text();
-      throw new Error(`LLM request failed (${response.status}): ${text}`);
-    }
-
-    const data = (await response.json()) as any;
-    const choice = data.choices?.[0];
-
-    if (!choice) {
-      throw new Error('No response from LLM');
+      const status = response.status;
+      throw new LLMRequestError(
+        `LLM request failed (${status}): ${text}`,
+        status === 408 || status === 429 || status >= 500,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
     }
 
-    return {
-      content: choice.message?.content || '',
-      tool_calls: choice.message?.tool_calls,
-      finish_reason: choice.finish_reason || 'stop',
-      usage: data.usage,
-    };
+    return response;
   }
 
   async testConnection(): Promise<boolean> {
@@ -136,7 +529,7 @@ export class LLMProvider {
         return response.ok;
       } else {
         const response = await fetch(`${this.config.baseURL}/models`, {
-          headers: this.getHeaders(),
+          headers: this.getHeaders(this.config.apiKey),
           timeout: 5000,
         } as any);
         return response.ok;
@@ -156,7 +549,7 @@ export class LLMProvider {
         return (data.models || []).map((m: any) => m.name);
       } else {
         const response = await fetch(`${this.config.baseURL}/models`, {
-          headers: this.getHeaders(),
+          headers: this.getHeaders(this.config.apiKey),
         });
         if (!response.ok) return [];
         const data = (await response.json()) as any;
@@ -0,0 +1,255 @@
+import { ChatMessage, ToolCall, ToolDefinition } from './llmProvider';
+
+/**
+ * Tool calling for models without native function calling. The tool
+ * schemas go into the system prompt, the model writes calls as
+ * <tool_call>{"name": ..., "arguments": {...}}</tool_call> blocks, and the
+ * blocks are parsed back out of the response text. Only those blocks
+ * count; the JSON inside them is parsed forgivingly, since models get it
+ * wrong in many ways.
+ */
+
+export type ToolCallingMode = 'native' | 'prompted';
+
+// A block still open at the end counts too: models often stop before the closing tag
+const BLOCK_PATTERN = /<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/gi;
+
+/** The mode configured for a model: exact name, then the name without its tag, then "*". */
+export function toolCallingMode(
+  modes: Record<string, ToolCallingMode> | undefined,
+  model: string
+): ToolCallingMode {
+  if (!modes) return 'native';
+  return modes[model] || modes[model.split(':')[0]] || modes['*'] || 'native';
+}
+
+export function buildToolPrompt(tools: ToolDefinition[]): string {
+  const list = tools
+    .map((t) => {
+      const parameters = JSON.stringify(t.function.parameters);
+      return `- ${t.function.name}: ${t.function.description}\n  Parameters: ${parameters}`;
+    })
+    .join('\n');
+  return `## Tools
+
+You can call tools. To call one, reply with a block in exactly this format and nothing after it:
+
+<tool_call>
+{"name": "tool_name", "arguments": {"parameter": "value"}}
+</tool_call>
+
+Use one block per call; several blocks run in order. The arguments must be valid JSON. The results come back in <tool_result> blocks; then continue, or answer the user normally without any block.
+
+Available tools:
+${list}`;
+}
+
+function formatCall(call: ToolCall): string {
+  let args: unknown = call.function.arguments;
+  try {
+    args = JSON.parse(call.function.arguments);
+  } catch {
+    // Keep the raw string; the model wrote it that way
+  }
+  return `<tool_call>\n${JSON.stringify({ name: call.function.name, arguments: args })}\n</tool_call>`;
+}
+
+/**
+ * Rewrites a conversation for a prompted-mode request: the tool prompt is
+ * added to the system message, earlier tool calls become text blocks and
+ * tool results become user messages, since such models do not know the
+ * tool role.
+ */
+export function toPromptedMessages(
+  messages: ChatMessage[],
+  tools?: ToolDefinition[]
+): ChatMessage[] {
+  const toolNames = new Map<string, string>();
+  const result: ChatMessage[] = messages.map((message) => {
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      for (const call of message.tool_calls) toolNames.set(call.id, call.function.name);
+      const blocks = message.tool_calls.map(formatCall).join('\n');
+      const content = message.content ? `${message.content}\n${blocks}` : blocks;
+      return { role: 'assistant', content };
+    }
+    if (message.role === 'tool') {
+      const name = toolNames.get(message.tool_call_id || '') || 'tool';
+      const content = `<tool_result name="${name}">\n${message.content}\n</tool_result>`;
+      return { role: 'user', content };
+    }
+    return { role: message.role, content: message.content };
+  });
+
+  if (tools && tools.length > 0) {
+    const prompt = buildToolPrompt(tools);
+    if (result[0]?.role === 'system') {
+      result[0] = { role: 'system', content: `${result[0].content}\n\n${prompt}` };
+    } else {
+      result.unshift({ role: 'system', content: prompt });
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the <tool_call> blocks in a response's text. JSON elsewhere in the
+ * text, fenced or not, is left alone, and only calls to a known tool count.
+ * Returns the text with the calls removed.
+ */
+export function parseToolCalls(
+  text: string,
+  toolNames: string[]
+): { content: string; toolCalls: ToolCall[] } {
+  const known = new Set(toolNames);
+  const toolCalls: ToolCall[] = [];
+  let content = text;
+
+  const collect = (source: string): boolean => {
+    const before = toolCalls.length;
+    for (const candidate of findJsonObjects(source)) {
+      const parsed = repairJson(candidate);
+      for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+        const call = toToolCall(item, known, toolCalls.length);
+        if (call) toolCalls.push(call);
+      }
+    }
+    return toolCalls.length > before;
+  };
+
+  content = content.replace(BLOCK_PATTERN, (match, body) => (collect(body) ? '' : match));
+
+  return { content: toolCalls.length > 0 ? content.trim() : text, toolCalls };
+}
+
+function toToolCall(item: unknown, known: Set<string>, index: number): ToolCall | null {
+  if (!item || typeof item !== 'object') return null;
+  const obj = item as Record<string, any>;
+
+  // {"name", "arguments"}, {"tool", "parameters"}, {"function": {"name", "arguments"}} ...
+  const fn = obj.function && typeof obj.function === 'object' ? obj.function : obj;
+  const name =
+    fn.name || fn.tool || fn.tool_name || (typeof obj.function === 'string' ? obj.function : '');
+  if (typeof name !== 'string' || !known.has(name)) return null;
+
+  let args = fn.arguments ?? fn.parameters ?? fn.args ?? fn.input ?? {};
+  if (typeof args === 'string') {
+    const repaired = repairJson(args);
+    args = repaired && typeof repaired === 'object' ? repaired : { input: args };
+  }
+  return {
+    id: `call_${Date.now()}_${index}`,
+    type: 'function',
+    function: { name, arguments: JSON.stringify(args) },
+  };
+}
+
+/**
+ * Top-level {...} and [...] spans of the text, found by bracket matching
+ * outside strings. An object still open at the end of the text is
+ * returned as well, since models often stop before the closing braces.
+ */
+function findJsonObjects(text: string): string[] {
+  const spans: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"' && depth > 0) {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if ((ch === '}' || ch === ']') && depth > 0) {
+      depth--;
+      if (depth === 0) spans.push(text.slice(start, i + 1));
+    }
+  }
+  if (depth > 0) spans.push(text.slice(start));
+  return spans;
+}
+
+/**
+ * Parses JSON as a model might write it: with code fences, trailing
+ * commas, single quotes, unquoted keys, Python literals, raw newlines in
+ * strings or missing closing brackets. Returns null when nothing works.
+ */
+export function repairJson(text: string): unknown {
+  const attempts = [
+    (s: string) => s.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''),
+    (s: string) => s.replace(/[“”]/g, '"').replace(/[‘’]/g, "'"),
+    escapeControlCharacters,
+    (s: string) => s.replace(/,\s*([}\]])/g, '$1'),
+    (s: string) => (s.includes('"') ? s : s.replace(/'/g, '"')),
+    (s: string) => s.replace(/([{,]\s*)([A-Za-z_][\w-]*)\s*:/g, '$1"$2":'),
+    (s: string) =>
+      s.replace(/\bTrue\b/g, 'true').replace(/\bFalse\b/g, 'false').replace(/\bNone\b/g, 'null'),
+    closeBrackets,
+  ];
+
+  let current = text;
+  for (const repair of attempts) {
+    current = repair(current);
+    try {
+      return JSON.parse(current);
+    } catch {
+      // Try the next repair on top of this one
+    }
+  }
+  return null;
+}
+
+function escapeControlCharacters(text: string): string {
+  let out = '';
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString && !escaped) {
+      if (ch === '\n') {
+        out += '\\n';
+        continue;
+      }
+      if (ch === '\r') {
+        out += '\\r';
+        continue;
+      }
+      if (ch === '\t') {
+        out += '\\t';
+        continue;
+      }
+    }
+    if (escaped) escaped = false;
+    else if (ch === '\\' && inString) escaped = true;
+    else if (ch === '"') inString = !inString;
+    out += ch;
+  }
+  return out;
+}
+
+function closeBrackets(text: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') closers.pop();
+  }
+  const closed = (inString ? `${text}"` : text).replace(/,\s*$/, '');
+  return closed + closers.reverse().join('');
+}
@@ -7,6 +7,7 @@ const logger = Logger.create('memory');
 export interface MemoryConfig {
   enabled: boolean;
   type: string;
+  namespace?: string;
 }
 
 export interface MemoryEntry {
@@ -24,7 +25,9 @@ export class MemoryManager {
 
   constructor(config: MemoryConfig, baseDir: string) {
     this.config = config;
-    this.storePath = path.join(baseDir, 'memory');
+    this.storePath = config.namespace
+      ? path.join(baseDir, 'memory', config.namespace)
+      : path.join(baseDir, 'memory');
 
     if (config.enabled) {
       this.ensureDirectory();
@@ -0,0 +1,125 @@
+/**
+ * Minimal 5-field cron expressions: minute hour day-of-month month day-of-week.
+ * Each field accepts `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/10`, `0-30/5`). Day-of-week is 0-6 with 7 also meaning Sunday.
+ * Times are evaluated in the gateway's local timezone (the TZ env variable).
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronExpression {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const FIELD_NAMES = ['minute', 'hour', 'day-of-month', 'month', 'day-of-week'];
+
+// Upper bound for the next-run search (a little over four years covers Feb 29)
+const MAX_SEARCH_MINUTES = 366 * 24 * 60 * 5;
+
+const NUMBER = /^\d+$/;
+
+function parseField(expr: string, index: number): CronField {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+  const invalid = (part: string) =>
+    new Error(`Invalid ${FIELD_NAMES[index]} field: "${part}" (allowed ${min}-${max})`);
+
+  for (const part of expr.split(',')) {
+    const pieces = part.split('/');
+    if (pieces.length > 2) throw invalid(part);
+    const [rangePart, stepPart] = pieces;
+
+    if (stepPart !== undefined && (!NUMBER.test(stepPart) || parseInt(stepPart, 10) < 1)) {
+      throw new Error(`Invalid step in ${FIELD_NAMES[index]} field: "${part}"`);
+    }
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else {
+      const bounds = rangePart.split('-');
+      if (bounds.length > 2 || !bounds.every((b) => NUMBER.test(b))) throw invalid(part);
+      start = parseInt(bounds[0], 10);
+      end = bounds.length === 2 ? parseInt(bounds[1], 10) : stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw invalid(part);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(index === 4 && v === 7 ? 0 : v);
+    }
+  }
+
+  // As in classic cron, a field starting with * (including */n) counts as unrestricted
+  return { values, wildcard: expr.startsWith('*') };
+}
+
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`
+    );
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((p, i) =>
+    parseField(p, i)
+  );
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const domMatch = cron.dayOfMonth.values.has(date.getDate());
+  const dowMatch = cron.dayOfWeek.values.has(date.getDay());
+  // Classic cron: when both day fields are restricted, either may match
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/** Returns the first matching minute strictly after `after`. */
+export function nextCronTime(expression: string, after: Date): Date {
+  const cron = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!cron.month.values.has(date.getMonth() + 1) || !matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
@@ -0,0 +1,319 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { nextCronTime, parseCron } from './cron';
+import { ExternalTool, RunOrigin, ToolContext } from '../tools/toolManager';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('scheduler');
+
+export interface SchedulerConfig {
+  enabled: boolean;
+  tickInterval: number;
+}
+
+export interface ScheduledTask {
+  id: string;
+  prompt: string;
+  /** Recurring schedule; when absent the task runs once at runAt. */
+  cron?: string;
+  runAt?: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+  conversationId: string;
+  agent: string;
+  origin?: RunOrigin;
+  createdAt: number;
+}
+
+export interface NewScheduledTask {
+  prompt: string;
+  cron?: string;
+  runAt?: number;
+  conversationId: string;
+  agent: string;
+  origin?: RunOrigin;
+}
+
+export type TaskRunner = (task: ScheduledTask) => Promise<void>;
+
+export class Scheduler {
+  private config: SchedulerConfig;
+  private storePath: string;
+  private tasks: Map<string, ScheduledTask> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private runner: TaskRunner | null = null;
+  /** Tasks on their last run, removed when it settles. */
+  private ending: Set<string> = new Set();
+
+  constructor(config: SchedulerConfig, baseDir: string) {
+    this.config = config;
+    this.storePath = path.join(baseDir, 'schedules.json');
+    this.loadFromDisk();
+  }
+
+  start(runner: TaskRunner): void {
+    if (!this.config.enabled) {
+      logger.info('Scheduler disabled');
+      return;
+    }
+    this.runner = runner;
+    this.timer = setInterval(() => this.tick(), this.config.tickInterval);
+    logger.info(`Scheduler started with ${this.tasks.size} task(s)`);
+    // Catch up on anything that came due while the gateway was down
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  create(input: NewScheduledTask): ScheduledTask {
+    if (!input.prompt?.trim()) {
+      throw new Error('A prompt is required');
+    }
+    if (!input.cron && input.runAt === undefined) {
+      throw new Error('Either a cron expression or a run time is required');
+    }
+    if (input.cron && input.runAt !== undefined) {
+      throw new Error('Use either a cron expression or a run time, not both');
+    }
+
+    let nextRunAt: number;
+    if (input.cron) {
+      parseCron(input.cron);
+      nextRunAt = nextCronTime(input.cron, new Date()).getTime();
+    } else {
+      if (!Number.isFinite(input.runAt) || input.runAt! <= Date.now()) {
+        throw new Error('The run time must be a valid time in the future');
+      }
+      nextRunAt = input.runAt!;
+    }
+
+    const task: ScheduledTask = {
+      id: uuidv4().split('-')[0],
+      prompt: input.prompt.trim(),
+      cron: input.cron,
+      runAt: input.runAt,
+      nextRunAt,
+      conversationId: input.conversationId,
+      agent: input.agent,
+      origin: input.origin,
+      createdAt: Date.now(),
+    };
+
+    this.tasks.set(task.id, task);
+    this.saveToDisk();
+    logger.info(
+      `Scheduled task ${task.id} for ${new Date(nextRunAt).toISOString()}${task.cron ? ` (cron: ${task.cron})` : ''}`
+    );
+    return task;
+  }
+
+  cancel(id: string): boolean {
+    const deleted = this.tasks.delete(id);
+    if (deleted) {
+      this.saveToDisk();
+      logger.info(`Cancelled task ${id}`);
+    }
+    return deleted;
+  }
+
+  get(id: string): ScheduledTask | null {
+    return this.tasks.get(id) || null;
+  }
+
+  list(conversationId?: string): ScheduledTask[] {
+    return Array.from(this.tasks.values())
+      .filter((t) => !conversationId || t.conversationId === conversationId)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+  }
+
+  /** Tools that let the LLM manage schedules for the current conversation. */
+  getTools(): ExternalTool[] {
+    return [
+      {
+        name: 'schedule_task',
+        definition: () => ({
+          type: 'function',
+          function: {
+            name: 'schedule_task',
+            description: `Schedule a prompt for the assistant to run later, either once ("at") or on a recurring cron schedule ("cron"). The result is sent to the user on the channel they are using now. Use it for reminders and periodic checks. Current server time: ${new Date().toString()}`,
+            parameters: {
+              type: 'object',
+              properties: {
+                prompt: {
+                  type: 'string',
+                  description:
+                    'What the assistant should do when the task runs, e.g. "Remind the user to call the dentist"',
+                },
+                at: {
+                  type: 'string',
+                  description:
+                    'For one-shot tasks: ISO 8601 date and time, e.g. "2025-03-01T09:00:00" (server local time unless an offset is given)',
+                },
+                cron: {
+                  type: 'string',
+                  description:
+                    'For recurring tasks: 5-field cron expression "minute hour day-of-month month day-of-week", e.g. "0 8 * * *" for every morning at 8',
+                },
+              },
+              required: ['prompt'],
+            },
+          },
+        }),
+        execute: async (args, context) => this.executeScheduleTool(args, context),
+      },
+      {
+        name: 'list_schedules',
+        definition: () => ({
+          type: 'function',
+          function: {
+            name: 'list_schedules',
+            description: 'List the scheduled tasks of the current conversation',
+            parameters: { type: 'object', properties: {}, required: [] },
+          },
+        }),
+        execute: async (_args, context) => {
+          const tasks = this.list(context.conversationId);
+          if (tasks.length === 0) return 'No scheduled tasks.';
+          return tasks.map((t) => this.describe(t)).join('\n');
+        },
+      },
+      {
+        name: 'cancel_schedule',
+        definition: () => ({
+          type: 'function',
+          function: {
+            name: 'cancel_schedule',
+            description: 'Cancel a scheduled task of the current conversation by id',
+            parameters: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'Task id from list_schedules' },
+              },
+              required: ['id'],
+            },
+          },
+        }),
+        execute: async (args, context) => {
+          const task = this.get(String(args.id || ''));
+          if (!task || task.conversationId !== context.conversationId) {
+            return `No scheduled task with id ${args.id} in this conversation.`;
+          }
+          this.cancel(task.id);
+          return `Cancelled task ${task.id}.`;
+        },
+      },
+    ];
+  }
+
+  private async executeScheduleTool(
+    args: Record<string, unknown>,
+    context: ToolContext
+  ): Promise<string> {
+    if (!context.conversationId) {
+      return 'Error: scheduling is not available here.';
+    }
+
+    let runAt: number | undefined;
+    if (args.at) {
+      runAt = new Date(String(args.at)).getTime();
+      if (Number.isNaN(runAt)) {
+        return `Error: invalid date "${args.at}". Use ISO 8601, e.g. 2025-03-01T09:00:00.`;
+      }
+    }
+
+    try {
+      const task = this.create({
+        prompt: String(args.prompt || ''),
+        cron: args.cron ? String(args.cron) : undefined,
+        runAt,
+        conversationId: context.conversationId,
+        agent: context.agentName || 'default',
+        origin: context.origin,
+      });
+      return `Scheduled: ${this.describe(task)}`;
+    } catch (err: any) {
+      return `Error: ${err.message}`;
+    }
+  }
+
+  private describe(task: ScheduledTask): string {
+    const when = task.cron
+      ? `cron "${task.cron}", next run ${new Date(task.nextRunAt).toString()}`
+      : `once at ${new Date(task.nextRunAt).toString()}`;
+    return `[${task.id}] ${when}: ${task.prompt}`;
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const due = Array.from(this.tasks.values()).filter(
+      (t) => t.nextRunAt <= now && !this.ending.has(t.id)
+    );
+    if (due.length === 0) return;
+
+    for (const task of due) {
+      task.lastRunAt = now;
+      if (!task.cron) {
+        this.ending.add(task.id);
+        continue;
+      }
+      try {
+        task.nextRunAt = nextCronTime(task.cron, new Date(now)).getTime();
+      } catch (err: any) {
+        logger.error(`Task ${task.id} will not run again: ${err.message}`);
+        this.ending.add(task.id);
+      }
+    }
+    this.saveToDisk();
+
+    for (const task of due) {
+      logger.info(`Running scheduled task ${task.id}`);
+      const run = this.runner ? this.runner(task) : Promise.resolve();
+      run
+        .catch((err) => {
+          logger.error(`Scheduled task ${task.id} failed: ${err}`);
+        })
+        .finally(() => this.settle(task.id));
+    }
+  }
+
+  /**
+   * Removes a task that has had its last run. Only done once the run
+   * settles, so a restart in between runs it again instead of losing it.
+   */
+  private settle(id: string): void {
+    if (!this.ending.delete(id)) return;
+    if (this.tasks.delete(id)) {
+      this.saveToDisk();
+    }
+  }
+
+  private loadFromDisk(): void {
+    if (!fs.existsSync(this.storePath)) return;
+
+    try {
+      const raw = fs.readFileSync(this.storePath, 'utf-8');
+      const tasks: ScheduledTask[] = JSON.parse(raw);
+      for (const task of tasks) {
+        this.tasks.set(task.id, task);
+      }
+      logger.info(`Loaded ${tasks.length} scheduled task(s)`);
+    } catch (err) {
+      logger.warn(`Failed to load schedules: ${err}`);
+    }
+  }
+
+  private saveToDisk(): void {
+    const dir = path.dirname(this.storePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const tasks = Array.from(this.tasks.values());
+    fs.writeFileSync(this.storePath, JSON.stringify(tasks, null, 2), 'utf-8');
+  }
+}
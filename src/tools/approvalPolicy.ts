@@ -0,0 +1,69 @@
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('approval-policy');
+
+export interface ApprovalRule {
+  tool: string;
+  argument?: string;
+  pattern?: string;
+}
+
+export interface ApprovalConfig {
+  enabled: boolean;
+  timeout: number;
+  rules: ApprovalRule[];
+}
+
+export class ApprovalPolicy {
+  private config: ApprovalConfig;
+  // null for a pattern that does not compile; such a rule matches every call
+  private patterns: Map<ApprovalRule, RegExp | null> = new Map();
+
+  constructor(config: ApprovalConfig) {
+    this.config = config;
+    for (const rule of config.rules) {
+      if (!rule.pattern) continue;
+      try {
+        this.patterns.set(rule, new RegExp(rule.pattern, 'i'));
+      } catch (err: any) {
+        logger.error(
+          `Invalid approval pattern for ${rule.tool}, every call will need approval: ${err.message}`
+        );
+        this.patterns.set(rule, null);
+      }
+    }
+  }
+
+  /**
+   * Returns a human-readable reason when the call needs approval, or null.
+   * A rule matches on tool name ('*' for any tool) and, if it has a pattern,
+   * on the named argument (or the whole JSON-encoded arguments). A rule
+   * whose pattern is not a valid regex matches every call to its tool, so a
+   * typo never lets a call through unapproved.
+   */
+  check(toolName: string, args: Record<string, unknown>): string | null {
+    if (!this.config.enabled) return null;
+
+    for (const rule of this.config.rules) {
+      if (rule.tool !== '*' && rule.tool !== toolName) continue;
+
+      if (!rule.pattern) {
+        return `${toolName} always requires approval`;
+      }
+
+      const regex = this.patterns.get(rule);
+      if (!regex) {
+        return `${toolName} requires approval (invalid pattern /${rule.pattern}/)`;
+      }
+
+      const value = rule.argument
+        ? String(args[rule.argument] ?? '')
+        : JSON.stringify(args);
+      if (regex.test(value)) {
+        return `${toolName} ${rule.argument || 'arguments'} match /${rule.pattern}/`;
+      }
+    }
+
+    return null;
+  }
+}
@@ -1,8 +1,10 @@
-import { exec, ExecOptions } from 'child_process';
+import { spawn } from 'child_process';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.create('bash-tool');
 
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
 export interface BashToolConfig {
   enabled: boolean;
   timeout: number;
@@ -15,6 +17,7 @@ export interface BashResult {
   stderr: string;
   exitCode: number;
   timedOut: boolean;
+  cancelled?: boolean;
 }
 
 export class BashTool {
@@ -24,7 +27,15 @@ export class BashTool {
     this.config = config;
   }
 
-  async execute(command: string, cwd?: string): Promise<BashResult> {
+  updateConfig(config: BashToolConfig): void {
+    this.config = config;
+  }
+
+  async execute(
+    command: string,
+    cwd?: string,
+    signal?: AbortSignal
+  ): Promise<BashResult> {
     if (!this.config.enabled) {
       return {
         stdout: '',
@@ -45,31 +56,85 @@ export class BashTool {
 
     logger.info(`Executing: ${command}`);
 
+    if (signal?.aborted) {
+      return { stdout: '', stderr: '', exitCode: 1, timedOut: false, cancelled: true };
+    }
+
     return new Promise((resolve) => {
-      const options: ExecOptions = {
-        timeout: this.config.timeout,
+      // Its own process group, so a timeout or cancellation also kills what
+      // the shell started (pipelines, background jobs, `sleep 600; ...`)
+      const child = spawn('/bin/sh', ['-c', command], {
         cwd: cwd || '/home/node/.openclaw/workspace',
-        maxBuffer: 1024 * 1024 * 10, // 10MB
         env: { ...process.env, HOME: '/home/node' },
+        detached: true,
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let outputBytes = 0;
+      let timedOut = false;
+      let cancelled = false;
+      let overflowed = false;
+
+      const killGroup = () => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // The group already exited
+        }
       };
+      const timer =
+        this.config.timeout > 0
+          ? setTimeout(() => {
+              timedOut = true;
+              killGroup();
+            }, this.config.timeout)
+          : null;
+      const onAbort = () => {
+        cancelled = true;
+        killGroup();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const collect = (chunk: Buffer, target: 'stdout' | 'stderr') => {
+        if (overflowed) return;
+        outputBytes += chunk.length;
+        if (outputBytes > MAX_OUTPUT_BYTES) {
+          overflowed = true;
+          killGroup();
+          return;
+        }
+        if (target === 'stdout') stdout += chunk.toString();
+        else stderr += chunk.toString();
+      };
+      child.stdout.on('data', (chunk: Buffer) => collect(chunk, 'stdout'));
+      child.stderr.on('data', (chunk: Buffer) => collect(chunk, 'stderr'));
 
-      exec(command, options, (error, stdout, stderr) => {
-        const timedOut = error?.killed === true;
-        const exitCode = error?.code
-          ? (typeof error.code === 'number' ? error.code : 1)
-          : 0;
+      let finished = false;
+      const finish = (exitCode: number, error?: string) => {
+        // A spawn error can be followed by 'close'
+        if (finished) return;
+        finished = true;
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
 
         if (timedOut) {
           logger.warn(`Command timed out: ${command}`);
         }
+        if (cancelled) {
+          logger.warn(`Command cancelled: ${command}`);
+        }
+        if (overflowed) {
+          stderr += `\nOutput exceeded ${MAX_OUTPUT_BYTES} bytes; the command was stopped.`;
+        }
+        if (error) {
+          stderr += error;
+        }
 
-        resolve({
-          stdout: stdout?.toString() || '',
-          stderr: stderr?.toString() || '',
-          exitCode: exitCode as number,
-          timedOut,
-        });
-      });
+        resolve({ stdout, stderr, exitCode, timedOut, cancelled });
+      };
+      child.on('error', (err) => finish(1, err.message));
+      child.on('close', (code) => finish(code ?? 1));
     });
   }
 
@@ -1,3 +1,4 @@
+import type { Browser, BrowserContext } from 'playwright';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.create('browser-tool');
@@ -18,13 +19,13 @@ export interface BrowseResult {
 
 export class BrowserTool {
   private config: BrowserToolConfig;
-  private browser: any = null;
+  private browser: Browser | null = null;
 
   constructor(config: BrowserToolConfig) {
     this.config = config;
   }
 
-  async browse(url: string): Promise<BrowseResult> {
+  async browse(url: string, signal?: AbortSignal): Promise<BrowseResult> {
     if (!this.config.enabled) {
       return {
         url,
@@ -37,6 +38,14 @@ export class BrowserTool {
 
     logger.info(`Browsing: ${url}`);
 
+    let context: BrowserContext | null = null;
+    const onAbort = () => {
+      logger.warn(`Browsing cancelled: ${url}`);
+      // Closing the context makes any pending page operation reject
+      context?.close().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     try {
       const playwright = await import('playwright');
 
@@ -47,11 +56,15 @@ export class BrowserTool {
         });
       }
 
-      const context = await this.browser.newContext({
+      context = await this.browser.newContext({
         userAgent:
           'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
       });
 
+      if (signal?.aborted) {
+        throw new Error('Cancelled');
+      }
+
       const page = await context.newPage();
       page.setDefaultTimeout(this.config.timeout || 30000);
 
@@ -60,7 +73,7 @@ export class BrowserTool {
       });
 
       const title = await page.title();
-      const content = await page.evaluate(`
+      const content = await page.evaluate<string>(`
         (() => {
           const body = document.body;
           if (!body) return '';
@@ -71,6 +84,7 @@ export class BrowserTool {
       `);
 
       await context.close();
+      context = null;
 
       return {
         url,
@@ -79,7 +93,12 @@ export class BrowserTool {
         status: response?.status() || 0,
       };
     } catch (err: any) {
+      if (signal?.aborted) {
+        await context?.close().catch(() => {});
+        return { url, title: '', content: '', status: 0, error: 'Cancelled' };
+      }
       logger.error(`Browser error: ${err.message}`);
+      await context?.close().catch(() => {});
       return {
         url,
         title: '',
@@ -87,6 +106,8 @@ export class BrowserTool {
         status: 0,
         error: err.message,
       };
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -7,6 +7,8 @@ const logger = Logger.create('claude-code-tool');
 
 const SSH_KEY_DIR = '/home/node/.openclaw/ssh';
 const SSH_KEY_PATH = path.join(SSH_KEY_DIR, 'id_ed25519');
+// Time ssh gets to close the session after SIGTERM before it is killed
+const KILL_GRACE_MS = 5000;
 
 export interface ClaudeCodeToolConfig {
   enabled: boolean;
@@ -80,7 +82,11 @@ export class ClaudeCodeTool {
     }
   }
 
-  async execute(prompt: string, workdir?: string): Promise<ClaudeCodeResult> {
+  async execute(
+    prompt: string,
+    workdir?: string,
+    signal?: AbortSignal
+  ): Promise<ClaudeCodeResult> {
     if (!this.config.enabled) {
       return { output: '', error: 'Claude Code tool is disabled', timedOut: false };
     }
@@ -112,20 +118,44 @@ export class ClaudeCodeTool {
 
     logger.info(`Running Claude Code on host via SSH (${this.hostUser}@${this.hostIP})`);
 
+    if (signal?.aborted) {
+      return { output: '', error: 'Cancelled', timedOut: false };
+    }
+
     return new Promise((resolve) => {
       let output = '';
       let timedOut = false;
+      let cancelled = false;
 
       const proc = spawn('ssh', sshArgs, {
         stdio: ['ignore', 'pipe', 'pipe'],
       });
 
+      // SIGTERM lets ssh close the session so the remote command is ended too;
+      // an ssh that does not exit in time is killed
+      let killTimer: NodeJS.Timeout | null = null;
+      const stop = () => {
+        proc.kill('SIGTERM');
+        if (killTimer) return;
+        killTimer = setTimeout(() => {
+          logger.warn('ssh did not exit after SIGTERM, killing it');
+          proc.kill('SIGKILL');
+        }, KILL_GRACE_MS);
+      };
+
       const timer = setTimeout(() => {
         timedOut = true;
-        proc.kill('SIGTERM');
+        stop();
         logger.warn('Claude Code timed out');
       }, timeout);
 
+      const onAbort = () => {
+        cancelled = true;
+        stop();
+        logger.warn('Claude Code cancelled');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       proc.stdout.on('data', (data: Buffer) => {
         output += data.toString();
       });
@@ -140,7 +170,11 @@ export class ClaudeCodeTool {
 
       proc.on('close', (code) => {
         clearTimeout(timer);
-        if (timedOut) {
+        if (killTimer) clearTimeout(killTimer);
+        signal?.removeEventListener('abort', onAbort);
+        if (cancelled) {
+          resolve({ output, timedOut: false, error: 'Cancelled' });
+        } else if (timedOut) {
           resolve({ output, timedOut: true, error: 'Timed out' });
         } else if (code !== 0 && code !== null) {
           if (code === 255) {
@@ -161,6 +195,8 @@ export class ClaudeCodeTool {
 
       proc.on('error', (err) => {
         clearTimeout(timer);
+        if (killTimer) clearTimeout(killTimer);
+        signal?.removeEventListener('abort', onAbort);
         resolve({ output: '', timedOut: false, error: `Failed to run ssh: ${err.message}` });
       });
     });
@@ -14,13 +14,53 @@ export interface ToolsConfig {
   claudeCode?: ClaudeCodeToolConfig;
 }
 
+export interface RunOrigin {
+  channelType?: string;
+  channelName?: string;
+  senderId?: string;
+  /** Channel-specific address for messages back to the sender. */
+  replyTo?: string;
+}
+
+export interface ToolContext {
+  signal?: AbortSignal;
+  conversationId?: string;
+  agentName?: string;
+  origin?: RunOrigin;
+}
+
+export interface ToolResult {
+  output: string;
+  /** Process exit code, for tools that run a command. */
+  exitCode?: number;
+  /** Set when the tool reports an error; used to spot a run that keeps failing. */
+  failed?: boolean;
+}
+
+/**
+ * A tool provided by another subsystem (e.g. the scheduler). The definition
+ * is requested on every run so it may include current state.
+ */
+export interface ExternalTool {
+  name: string;
+  definition(): ToolDefinition;
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
 export class ToolManager {
   private bashTool: BashTool;
   private fileTool: FileTool;
   private browserTool: BrowserTool;
   private claudeCodeTool: ClaudeCodeTool | null;
+  private enabledTools: Set<string> | null;
+  private externalTools: Map<string, ExternalTool> = new Map();
 
-  constructor(config: ToolsConfig, workspaceDir: string) {
+  /**
+   * enabledTools restricts which tools are offered to the LLM and can be
+   * executed; when omitted, every configured tool is available.
+   */
+  constructor(config: ToolsConfig, workspaceDir: string, enabledTools?: string[]) {
+    this.enabledTools = enabledTools ? new Set(enabledTools) : null;
     this.bashTool = new BashTool(config.bash);
     this.fileTool = new FileTool(config.file, workspaceDir);
     this.browserTool = new BrowserTool(config.browser);
@@ -29,6 +69,16 @@ export class ToolManager {
       : null;
   }
 
+  /**
+   * Applies reloaded settings that are safe to change at runtime: the bash
+   * tool's settings and the enabled tool list. The browser, file and Claude
+   * Code tools keep the settings they were created with.
+   */
+  reconfigure(config: ToolsConfig, enabledTools?: string[]): void {
+    this.enabledTools = enabledTools ? new Set(enabledTools) : null;
+    this.bashTool.updateConfig(config.bash);
+  }
+
   getToolDefinitions(): ToolDefinition[] {
     const tools: ToolDefinition[] = [];
 
@@ -155,29 +205,59 @@ export class ToolManager {
       });
     }
 
-    return tools;
+    for (const tool of this.externalTools.values()) {
+      tools.push(tool.definition());
+    }
+
+    return tools.filter((tool) => this.isToolEnabled(tool.function.name));
+  }
+
+  registerTool(tool: ExternalTool): void {
+    this.externalTools.set(tool.name, tool);
+    logger.info(`Registered tool: ${tool.name}`);
+  }
+
+  isToolEnabled(name: string): boolean {
+    return !this.enabledTools || this.enabledTools.has(name);
   }
 
   async executeTool(
     name: string,
-    args: Record<string, unknown>
-  ): Promise<string> {
+    args: Record<string, unknown>,
+    context: ToolContext = {}
+  ): Promise<ToolResult> {
+    if (!this.isToolEnabled(name)) {
+      logger.warn(`Tool not enabled for this agent: ${name}`);
+      return { output: `Tool not available: ${name}`, failed: true };
+    }
+
     logger.info(`Executing tool: ${name}`);
 
     switch (name) {
       case 'bash': {
-        const result = await this.bashTool.execute(args.command as string);
+        const result = await this.bashTool.execute(
+          args.command as string,
+          undefined,
+          context.signal
+        );
         const output = result.stdout || result.stderr;
-        return result.timedOut
-          ? `Command timed out.\n${output}`
-          : `Exit code: ${result.exitCode}\n${output}`;
+        if (result.cancelled) {
+          return { output: `Command cancelled.\n${output}`, exitCode: result.exitCode, failed: true };
+        }
+        return {
+          output: result.timedOut
+            ? `Command timed out.\n${output}`
+            : `Exit code: ${result.exitCode}\n${output}`,
+          exitCode: result.exitCode,
+          failed: result.timedOut || result.exitCode !== 0,
+        };
       }
 
       case 'read_file': {
         try {
-          return this.fileTool.readFile(args.path as string);
+          return { output: this.fileTool.readFile(args.path as string) };
         } catch (err: any) {
-          return `Error reading file: ${err.message}`;
+          return { output: `Error reading file: ${err.message}`, failed: true };
         }
       }
 
@@ -187,9 +267,9 @@ export class ToolManager {
             args.path as string,
             args.content as string
           );
-          return `File written successfully: ${args.path}`;
+          return { output: `File written successfully: ${args.path}` };
         } catch (err: any) {
-          return `Error writing file: ${err.message}`;
+          return { output: `Error writing file: ${err.message}`, failed: true };
         }
       }
 
@@ -198,39 +278,48 @@ export class ToolManager {
           const files = this.fileTool.listDirectory(
             (args.path as string) || '.'
           );
-          return files.join('\n');
+          return { output: files.join('\n') };
         } catch (err: any) {
-          return `Error listing directory: ${err.message}`;
+          return { output: `Error listing directory: ${err.message}`, failed: true };
         }
       }
 
       case 'browse': {
-        const result = await this.browserTool.browse(args.url as string);
+        const result = await this.browserTool.browse(
+          args.url as string,
+          context.signal
+        );
         if (result.error) {
-          return `Error browsing ${args.url}: ${result.error}`;
+          return { output: `Error browsing ${args.url}: ${result.error}`, failed: true };
         }
-        return `Title: ${result.title}\n\n${result.content}`;
+        return { output: `Title: ${result.title}\n\n${result.content}` };
       }
 
       case 'claude_code': {
         if (!this.claudeCodeTool) {
-          return 'Claude Code tool is not enabled';
+          return { output: 'Claude Code tool is not enabled', failed: true };
         }
         const result = await this.claudeCodeTool.execute(
           args.prompt as string,
-          args.workdir as string | undefined
+          args.workdir as string | undefined,
+          context.signal
         );
         if (result.error) {
-          return `Claude Code error: ${result.error}\n${result.output}`;
+          return { output: `Claude Code error: ${result.error}\n${result.output}`, failed: true };
         }
         if (result.timedOut) {
-          return `Claude Code timed out.\n${result.output}`;
+          return { output: `Claude Code timed out.\n${result.output}`, failed: true };
         }
-        return result.output;
+        return { output: result.output };
       }
 
-      default:
-        return `Unknown tool: ${name}`;
+      default: {
+        const external = this.externalTools.get(name);
+        if (external) {
+          return { output: await external.execute(args, context) };
+        }
+        return { output: `Unknown tool: ${name}`, failed: true };
+      }
     }
   }
 
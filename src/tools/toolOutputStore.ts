@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExternalTool } from './toolManager';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.create('tool-outputs');
+
+export const READ_TOOL_OUTPUT = 'read_tool_output';
+
+const DEFAULT_PAGE_LINES = 100;
+// Keeps a page well under the tool result limit, so it is never cut itself
+const MAX_PAGE_CHARS = 3500;
+const MAX_LINE_CHARS = 1000;
+const MAX_MATCHES = 50;
+const MAX_ARTIFACT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Full outputs of tool calls that were too long to hand to the LLM, one
+ * text file per call under tool-outputs/<conversation>/. The LLM sees a
+ * preview and pages through the rest with the read_tool_output tool.
+ */
+export class ToolOutputStore {
+  private storePath: string;
+
+  constructor(baseDir: string) {
+    this.storePath = path.join(baseDir, 'tool-outputs');
+  }
+
+  save(conversationId: string, artifactId: string, output: string): void {
+    const dir = this.getDir(conversationId);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    let content = output;
+    if (Buffer.byteLength(output) > MAX_ARTIFACT_BYTES) {
+      const clipped = Buffer.from(output).subarray(0, MAX_ARTIFACT_BYTES).toString();
+      content = `${clipped}\n[...stored output clipped at ${MAX_ARTIFACT_BYTES} bytes]`;
+    }
+    fs.writeFileSync(this.getFilePath(conversationId, artifactId), content, 'utf-8');
+  }
+
+  load(conversationId: string, artifactId: string): string | null {
+    // Ids are generated by the agent; anything else could point outside the directory
+    if (!/^[\w-]+$/.test(artifactId)) return null;
+    const filePath = this.getFilePath(conversationId, artifactId);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+  }
+
+  /** Removes every artifact of a conversation. */
+  delete(conversationId: string): void {
+    const dir = this.getDir(conversationId);
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+      logger.info(`Deleted tool outputs of ${conversationId}`);
+    }
+  }
+
+  getTool(): ExternalTool {
+    return {
+      name: READ_TOOL_OUTPUT,
+      definition: () => ({
+        type: 'function',
+        function: {
+          name: READ_TOOL_OUTPUT,
+          description:
+            'Read a long tool output that was shortened to a preview. Returns a page of lines starting at offset, or the lines matching a search pattern.',
+          parameters: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'Artifact id given in the preview, e.g. "3f9a1c2e-4"',
+              },
+              offset: {
+                type: 'number',
+                description: 'Line to start from, counting from 0 (default 0)',
+              },
+              limit: {
+                type: 'number',
+                description: `Number of lines to return (default ${DEFAULT_PAGE_LINES})`,
+              },
+              pattern: {
+                type: 'string',
+                description:
+                  'Regular expression (case-insensitive); when given, only matching lines from offset on are returned',
+              },
+            },
+            required: ['id'],
+          },
+        },
+      }),
+      execute: async (args, context) => {
+        const id = String(args.id || '');
+        const output = context.conversationId ? this.load(context.conversationId, id) : null;
+        if (output === null) {
+          return `No stored output with id "${id}" in this conversation.`;
+        }
+        const offset = Math.max(0, Math.floor(Number(args.offset) || 0));
+        const limit = Math.max(1, Math.floor(Number(args.limit) || DEFAULT_PAGE_LINES));
+        const lines = output.split('\n');
+        return args.pattern
+          ? searchLines(id, lines, String(args.pattern), offset)
+          : pageLines(id, lines, offset, limit);
+      },
+    };
+  }
+
+  private getDir(conversationId: string): string {
+    return path.join(this.storePath, encodeURIComponent(conversationId));
+  }
+
+  private getFilePath(conversationId: string, artifactId: string): string {
+    return path.join(this.getDir(conversationId), `${artifactId}.txt`);
+  }
+}
+
+function clipLine(line: string): string {
+  return line.length > MAX_LINE_CHARS
+    ? `${line.substring(0, MAX_LINE_CHARS)} [...${line.length - MAX_LINE_CHARS} chars]`
+    : line;
+}
+
+function pageLines(id: string, lines: string[], offset: number, limit: number): string {
+  if (offset >= lines.length) {
+    return `Output ${id} has ${lines.length} lines; offset ${offset} is past the end.`;
+  }
+
+  const page: string[] = [];
+  let chars = 0;
+  let end = offset;
+  while (end < lines.length && end < offset + limit) {
+    const line = clipLine(lines[end]);
+    if (page.length > 0 && chars + line.length > MAX_PAGE_CHARS) break;
+    page.push(line);
+    chars += line.length + 1;
+    end++;
+  }
+
+  const next = end < lines.length ? ` Continue with offset ${end}.` : ' End of output.';
+  return `Lines ${offset}-${end - 1} of ${lines.length} in ${id}.${next}\n\n${page.join('\n')}`;
+}
+
+function searchLines(id: string, lines: string[], pattern: string, offset: number): string {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'i');
+  } catch (err: any) {
+    return `Invalid pattern: ${err.message}`;
+  }
+
+  const matches: string[] = [];
+  let chars = 0;
+  let i = offset;
+  for (; i < lines.length; i++) {
+    if (!regex.test(lines[i])) continue;
+    const match = `${i}: ${clipLine(lines[i])}`;
+    if (matches.length >= MAX_MATCHES || chars + match.length > MAX_PAGE_CHARS) break;
+    matches.push(match);
+    chars += match.length + 1;
+  }
+
+  if (matches.length === 0) {
+    return `No lines matching /${pattern}/ in ${id} from line ${offset} on.`;
+  }
+  const more = i < lines.length ? ` More may follow; search again with offset ${i}.` : '';
+  return `${matches.length} matching lines in ${id} (line number: text).${more}\n\n${matches.join('\n')}`;
+}
+
+/**
+ * What the LLM sees of an output that was stored: its start and end within
+ * maxChars, and how to read the rest.
+ */
+export function formatPreview(
+  tool: string,
+  artifactId: string,
+  output: string,
+  maxChars: number
+): string {
+  const lineCount = output.split('\n').length;
+  const header =
+    `[${tool} output is ${output.length} chars (${lineCount} lines). Showing the start and end; ` +
+    `call ${READ_TOOL_OUTPUT} with id "${artifactId}" to page through or search the full output.]`;
+  const budget = Math.max(0, maxChars - header.length);
+  const headChars = Math.ceil(budget * 0.6);
+  const tailChars = budget - headChars;
+  const omitted = output.length - headChars - tailChars;
+  return (
+    `${header}\n\n${output.substring(0, headChars)}\n\n[...${omitted} chars omitted...]\n\n` +
+    output.substring(output.length - tailChars)
+  );
+}
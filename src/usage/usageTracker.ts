@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMResponse } from '../llm/llmProvider';
+import { Logger } from '../utils/logger';
+import { DebouncedSave, writeFileAtomic } from '../utils/persist';
+
+const logger = Logger.create('usage');
+
+// Every LLM call records usage; coalesce the rewrites of usage.json
+const SAVE_DELAY_MS = 5000;
+
+/** Token limits; a missing value means unlimited. */
+export interface QuotaLimits {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface UsageConfig {
+  enabled: boolean;
+  /** Default limits for every channel sender, plus per-sender overrides. */
+  quotas: QuotaLimits & {
+    senders?: Record<string, QuotaLimits>;
+  };
+}
+
+export type UsageDimension = 'conversation' | 'sender' | 'channel' | 'model' | 'day';
+
+export interface UsageFilter {
+  /** Inclusive YYYY-MM-DD bounds, in the gateway's local timezone. */
+  since?: string;
+  until?: string;
+  conversationId?: string;
+  sender?: string;
+  channel?: string;
+  model?: string;
+}
+
+export interface UsageTotal {
+  key: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  requests: number;
+}
+
+export interface QuotaExceeded {
+  period: 'daily' | 'monthly';
+  limit: number;
+  used: number;
+}
+
+export interface UsageRecord {
+  conversationId: string;
+  channel?: string;
+  sender?: string;
+  model: string;
+  usage: NonNullable<LLMResponse['usage']>;
+}
+
+/** One day of usage for a conversation/sender/channel/model combination. */
+interface UsageBucket {
+  day: string;
+  conversationId: string;
+  channel?: string;
+  sender?: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+}
+
+function localDay(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** First day of the month before the given day's, e.g. 2026-02-01 for 2026-03-15. */
+function previousMonthStart(day: string): string {
+  const [year, month] = day.split('-').map(Number);
+  const previous = month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+  return `${previous}-01`;
+}
+
+function bucketKey(b: Omit<UsageBucket, 'promptTokens' | 'completionTokens' | 'requests'>): string {
+  return [b.day, b.conversationId, b.channel || '', b.sender || '', b.model].join('\u0000');
+}
+
+export function formatQuotaMessage(exceeded: QuotaExceeded): string {
+  const resets = exceeded.period === 'daily' ? 'tomorrow' : 'at the start of next month';
+  return `Sorry, you have reached your ${exceeded.period} usage limit (${exceeded.limit.toLocaleString('en-US')} tokens), so I can't answer right now. Your allowance resets ${resets}.`;
+}
+
+/**
+ * Aggregates LLM token usage reported by the provider into daily buckets
+ * and enforces per-sender quotas. Persisted to usage.json. Buckets are kept
+ * for the current and the previous month; older ones are dropped.
+ */
+export class UsageTracker {
+  private config: UsageConfig;
+  private storePath: string;
+  private buckets: Map<string, UsageBucket> = new Map();
+  private prunedOn = '';
+  private save = new DebouncedSave(() => this.saveToDisk(), SAVE_DELAY_MS);
+
+  constructor(config: UsageConfig, baseDir: string) {
+    this.config = config;
+    this.storePath = path.join(baseDir, 'usage.json');
+    this.loadFromDisk();
+  }
+
+  record(entry: UsageRecord): void {
+    if (!this.config.enabled) return;
+
+    const today = localDay();
+    if (this.prunedOn !== today) this.prune(today);
+
+    const dimensions = {
+      day: today,
+      conversationId: entry.conversationId,
+      channel: entry.channel,
+      sender: entry.sender,
+      model: entry.model,
+    };
+    const key = bucketKey(dimensions);
+    const bucket = this.buckets.get(key) || {
+      ...dimensions,
+      promptTokens: 0,
+      completionTokens: 0,
+      requests: 0,
+    };
+    bucket.promptTokens += entry.usage.prompt_tokens || 0;
+    bucket.completionTokens += entry.usage.completion_tokens || 0;
+    bucket.requests++;
+    this.buckets.set(key, bucket);
+    this.save.schedule();
+  }
+
+  /** Totals grouped by one dimension, largest first. */
+  summarize(groupBy: UsageDimension, filter: UsageFilter = {}): UsageTotal[] {
+    const totals = new Map<string, UsageTotal>();
+    for (const bucket of this.filter(filter)) {
+      const key = this.dimensionOf(bucket, groupBy);
+      const total = totals.get(key) || {
+        key,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        requests: 0,
+      };
+      total.promptTokens += bucket.promptTokens;
+      total.completionTokens += bucket.completionTokens;
+      total.totalTokens += bucket.promptTokens + bucket.completionTokens;
+      total.requests += bucket.requests;
+      totals.set(key, total);
+    }
+
+    const sorted = Array.from(totals.values());
+    return groupBy === 'day'
+      ? sorted.sort((a, b) => a.key.localeCompare(b.key))
+      : sorted.sort((a, b) => b.totalTokens - a.totalTokens);
+  }
+
+  getQuota(sender: string): QuotaLimits {
+    const override = this.config.quotas.senders?.[sender] || {};
+    return {
+      daily: override.daily ?? this.config.quotas.daily,
+      monthly: override.monthly ?? this.config.quotas.monthly,
+    };
+  }
+
+  /** Tokens the sender used today and this month. */
+  getSenderUsage(sender: string): { daily: number; monthly: number } {
+    const today = localDay();
+    const month = today.slice(0, 7);
+    let daily = 0;
+    let monthly = 0;
+    for (const bucket of this.buckets.values()) {
+      if (bucket.sender !== sender || !bucket.day.startsWith(month)) continue;
+      const tokens = bucket.promptTokens + bucket.completionTokens;
+      monthly += tokens;
+      if (bucket.day === today) daily += tokens;
+    }
+    return { daily, monthly };
+  }
+
+  /** Returns the first quota the sender has used up, or null. */
+  checkQuota(sender: string): QuotaExceeded | null {
+    if (!this.config.enabled) return null;
+
+    const quota = this.getQuota(sender);
+    if (quota.daily === undefined && quota.monthly === undefined) return null;
+
+    const used = this.getSenderUsage(sender);
+    if (quota.daily !== undefined && used.daily >= quota.daily) {
+      return { period: 'daily', limit: quota.daily, used: used.daily };
+    }
+    if (quota.monthly !== undefined && used.monthly >= quota.monthly) {
+      return { period: 'monthly', limit: quota.monthly, used: used.monthly };
+    }
+    return null;
+  }
+
+  private filter(filter: UsageFilter): UsageBucket[] {
+    return Array.from(this.buckets.values()).filter(
+      (b) =>
+        (!filter.since || b.day >= filter.since) &&
+        (!filter.until || b.day <= filter.until) &&
+        (!filter.conversationId || b.conversationId === filter.conversationId) &&
+        (!filter.sender || b.sender === filter.sender) &&
+        (!filter.channel || b.channel === filter.channel) &&
+        (!filter.model || b.model === filter.model)
+    );
+  }
+
+  private dimensionOf(bucket: UsageBucket, groupBy: UsageDimension): string {
+    switch (groupBy) {
+      case 'conversation':
+        return bucket.conversationId;
+      case 'sender':
+        return bucket.sender || '(api)';
+      case 'channel':
+        return bucket.channel || '(api)';
+      case 'model':
+        return bucket.model;
+      case 'day':
+        return bucket.day;
+    }
+  }
+
+  private prune(today: string): void {
+    const cutoff = previousMonthStart(today);
+    let removed = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.day < cutoff) {
+        this.buckets.delete(key);
+        removed++;
+      }
+    }
+    this.prunedOn = today;
+    if (removed > 0) {
+      logger.info(`Dropped ${removed} usage record(s) from before ${cutoff}`);
+      this.save.schedule();
+    }
+  }
+
+  private loadFromDisk(): void {
+    if (!fs.existsSync(this.storePath)) return;
+
+    try {
+      const buckets: UsageBucket[] = JSON.parse(fs.readFileSync(this.storePath, 'utf-8'));
+      for (const b of buckets) {
+        this.buckets.set(bucketKey(b), b);
+      }
+      logger.info(`Loaded ${buckets.length} usage record(s)`);
+    } catch (err) {
+      logger.warn(`Failed to load usage data: ${err}`);
+    }
+    this.prune(localDay());
+  }
+
+  private saveToDisk(): void {
+    const dir = path.dirname(this.storePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const buckets = Array.from(this.buckets.values());
+    try {
+      writeFileAtomic(this.storePath, JSON.stringify(buckets));
+    } catch (err) {
+      logger.error(`Failed to save usage data: ${err}`);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+
+/** Writes through a temporary file and a rename, so a crash never leaves a half-written file. */
+export function writeFileAtomic(filePath: string, data: string): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, data, 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Coalesces frequent saves of a whole file into at most one write per
+ * delay. A pending save is written when the process exits.
+ */
+export class DebouncedSave {
+  private save: () => void;
+  private delayMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(save: () => void, delayMs: number) {
+    this.save = save;
+    this.delayMs = delayMs;
+    process.on('exit', () => this.flush());
+  }
+
+  schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.save();
+    }, this.delayMs);
+    // A pending save must not keep a CLI command alive
+    this.timer.unref();
+  }
+
+  /** Writes a pending save now. */
+  flush(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.save();
+  }
+}
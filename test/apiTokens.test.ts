@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiTokenConfig } from '../src/config/configManager';
+import {
+  API_SCOPES,
+  ApiTokenManager,
+  generateToken,
+  hashToken,
+  isValidScope,
+} from '../src/gateway/apiTokens';
+
+function token(name: string, plain: string, scopes: string[], expiresAt?: string): ApiTokenConfig {
+  return { name, hash: hashToken(plain), scopes, createdAt: '2026-01-01T00:00:00.000Z', expiresAt };
+}
+
+test('generateToken makes distinct prefixed tokens', () => {
+  const a = generateToken();
+  assert.match(a, /^oc_[A-Za-z0-9_-]{32}$/);
+  assert.notEqual(a, generateToken());
+});
+
+test('hashToken is a hex SHA-256 of the token', () => {
+  assert.equal(
+    hashToken('abc'),
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+  );
+});
+
+test('isValidScope knows only the listed scopes', () => {
+  for (const scope of API_SCOPES) assert.equal(isValidScope(scope), true);
+  assert.equal(isValidScope('root'), false);
+  assert.equal(isValidScope('Chat'), false);
+});
+
+test('without any token the API is open', () => {
+  assert.equal(new ApiTokenManager({ token: '' }).isAuthRequired(), false);
+  assert.equal(new ApiTokenManager({ token: '', tokens: [] }).isAuthRequired(), false);
+  assert.equal(new ApiTokenManager({ token: 'x' }).isAuthRequired(), true);
+  assert.equal(
+    new ApiTokenManager({ token: '', tokens: [token('ci', 'y', ['chat'])] }).isAuthRequired(),
+    true
+  );
+});
+
+test('the legacy gateway token has every scope', () => {
+  const manager = new ApiTokenManager({ token: 'legacy' });
+  assert.deepEqual(manager.authenticate('legacy'), {
+    ok: true,
+    identity: { name: 'gateway', scopes: [...API_SCOPES] },
+  });
+});
+
+test('a named token authenticates with its valid scopes only', () => {
+  const manager = new ApiTokenManager({
+    token: 'legacy',
+    tokens: [token('monitor', 'oc_monitor', ['status', 'superuser'])],
+  });
+  assert.deepEqual(manager.authenticate('oc_monitor'), {
+    ok: true,
+    identity: { name: 'monitor', scopes: ['status'] },
+  });
+});
+
+test('unknown, missing and expired tokens are rejected', (t) => {
+  t.mock.method(Date, 'now', () => Date.parse('2026-06-01T00:00:00.000Z'));
+  const manager = new ApiTokenManager({
+    token: '',
+    tokens: [
+      token('old', 'oc_old', ['chat'], '2026-05-31T23:59:59.000Z'),
+      token('new', 'oc_new', ['chat'], '2026-06-01T00:00:01.000Z'),
+    ],
+  });
+  assert.deepEqual(manager.authenticate(undefined), {
+    ok: false,
+    error: 'Invalid authentication token',
+  });
+  assert.deepEqual(manager.authenticate('oc_other'), {
+    ok: false,
+    error: 'Invalid authentication token',
+  });
+  assert.deepEqual(manager.authenticate('oc_old'), { ok: false, error: 'Token old has expired' });
+  assert.equal(manager.authenticate('oc_new').ok, true);
+});
+
+test('update replaces the tokens, so revoked ones stop working', () => {
+  const manager = new ApiTokenManager({ token: '', tokens: [token('ci', 'oc_ci', ['chat'])] });
+  assert.equal(manager.authenticate('oc_ci').ok, true);
+  manager.update({ token: '', tokens: [] });
+  assert.equal(manager.authenticate('oc_ci').ok, false);
+  assert.equal(manager.isAuthRequired(), false);
+});
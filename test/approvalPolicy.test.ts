@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApprovalPolicy, ApprovalRule } from '../src/tools/approvalPolicy';
+
+const policy = (rules: ApprovalRule[], enabled = true) =>
+  new ApprovalPolicy({ enabled, timeout: 1000, rules });
+
+test('a rule with a pattern matches the named argument', () => {
+  const p = policy([{ tool: 'bash', argument: 'command', pattern: '\\brm\\b' }]);
+  assert.equal(p.check('bash', { command: 'RM -rf build' }), 'bash command match /\\brm\\b/');
+  assert.equal(p.check('bash', { command: 'ls -la' }), null);
+  assert.equal(p.check('bash', {}), null);
+  assert.equal(p.check('write_file', { command: 'rm' }), null);
+});
+
+test('a rule without an argument matches the JSON-encoded arguments', () => {
+  const p = policy([{ tool: '*', pattern: '/etc/' }]);
+  assert.equal(p.check('write_file', { path: '/etc/hosts' }), 'write_file arguments match //etc//');
+  assert.equal(p.check('read_file', { path: '/home/a' }), null);
+});
+
+test('a rule without a pattern matches every call to its tool', () => {
+  const p = policy([{ tool: 'browser' }]);
+  assert.equal(p.check('browser', { url: 'https://example.com' }), 'browser always requires approval');
+  assert.equal(p.check('bash', { command: 'ls' }), null);
+});
+
+test('a rule with an invalid pattern requires approval for every call to its tool', () => {
+  const p = policy([
+    { tool: 'bash', argument: 'command', pattern: '(rm|mv' },
+    { tool: 'read_file', pattern: 'secret' },
+  ]);
+  assert.equal(p.check('bash', { command: 'ls' }), 'bash requires approval (invalid pattern /(rm|mv/)');
+  assert.equal(p.check('read_file', { path: 'notes' }), null);
+});
+
+test('a disabled policy approves everything', () => {
+  const p = policy([{ tool: '*' }, { tool: 'bash', pattern: '(' }], false);
+  assert.equal(p.check('bash', { command: 'rm -rf /' }), null);
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// The config paths are fixed when the module loads, so it is imported after
+// moving into a directory with its own openclaw.json
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-config-'));
+const configPath = path.join(dir, 'openclaw.json');
+const tokenFile = path.join(dir, 'token');
+process.chdir(dir);
+
+async function loadWith(file: object, env: Record<string, string>) {
+  fs.writeFileSync(configPath, JSON.stringify(file));
+  Object.assign(process.env, env);
+  try {
+    const { ConfigManager } = await import('../src/config/configManager');
+    return { ConfigManager, config: ConfigManager.load() };
+  } finally {
+    for (const name of Object.keys(env)) delete process.env[name];
+  }
+}
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('save keeps the file references where environment overrides apply', async () => {
+  fs.writeFileSync(tokenFile, 'file-token\n');
+  const { ConfigManager, config } = await loadWith(
+    {
+      gateway: { auth: { token: `file:${tokenFile}` } },
+      llm: { apiKey: '${OPENCLAW_TEST_KEY}' },
+    },
+    {
+      OPENCLAW_TEST_KEY: 'sk-file',
+      OPENCLAW_GATEWAY_TOKEN: 'env-token',
+      LLM_API_KEY: 'sk-env',
+    }
+  );
+  assert.equal(config.gateway.auth.token, 'env-token');
+  assert.equal(config.llm.apiKey, 'sk-env');
+
+  ConfigManager.save(config, configPath);
+  const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  assert.equal(saved.gateway.auth.token, `file:${tokenFile}`);
+  assert.equal(saved.llm.apiKey, '${OPENCLAW_TEST_KEY}');
+});
+
+test('save keeps plain text secrets and adds none the file did not have', async () => {
+  const { ConfigManager, config } = await loadWith(
+    { gateway: { auth: { token: 'plain-token' } } },
+    { OPENCLAW_GATEWAY_TOKEN: 'env-token', LLM_API_KEY: 'sk-env' }
+  );
+  assert.equal(ConfigManager.redact(config).llm.apiKey, '***hidden***');
+
+  ConfigManager.save(config, configPath);
+  const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  assert.equal(saved.gateway.auth.token, 'plain-token');
+  assert.equal('apiKey' in saved.llm, false);
+});
+
+test('save writes a changed secret as it is', async () => {
+  const { ConfigManager, config } = await loadWith(
+    { llm: { apiKey: '${OPENCLAW_TEST_KEY}' } },
+    { OPENCLAW_TEST_KEY: 'sk-file', LLM_API_KEY: 'sk-env' }
+  );
+  config.llm.apiKey = 'sk-new';
+
+  ConfigManager.save(config, configPath);
+  assert.equal(JSON.parse(fs.readFileSync(configPath, 'utf-8')).llm.apiKey, 'sk-new');
+});
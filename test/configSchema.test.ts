@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatConfigIssues, validateConfig } from '../src/config/configSchema';
+
+// The issues under one part of a config; the rest of these partial configs is not checked
+function issuesAt(config: unknown, prefix: string) {
+  return validateConfig(config).filter((i) => i.path.startsWith(prefix));
+}
+
+const approval = (rules: unknown[]) => ({ approval: { enabled: true, timeout: 1000, rules } });
+
+test('validateConfig accepts a valid section', () => {
+  assert.deepEqual(
+    issuesAt(approval([{ tool: 'bash', argument: 'command', pattern: '\\brm\\b' }]), 'approval'),
+    []
+  );
+});
+
+test('validateConfig reports unknown keys with a suggestion', () => {
+  const issues = issuesAt({ approval: { enabled: true, timout: 1000, rules: [] } }, 'approval');
+  assert.deepEqual(issues, [
+    { path: 'approval.timout', message: 'unknown setting; did you mean "timeout"?' },
+    { path: 'approval.timeout', message: 'is required' },
+  ]);
+  assert.deepEqual(issuesAt({ nonsense: 1 }, 'nonsense'), [
+    { path: 'nonsense', message: 'unknown setting' },
+  ]);
+});
+
+test('validateConfig reports missing required settings', () => {
+  assert.deepEqual(issuesAt(approval([{ pattern: 'x' }]), 'approval'), [
+    { path: 'approval.rules[0].tool', message: 'is required' },
+  ]);
+  assert.deepEqual(validateConfig({}).find((i) => i.path === 'gateway'), {
+    path: 'gateway',
+    message: 'is required',
+  });
+});
+
+test('validateConfig reports wrong types and values', () => {
+  const issues = issuesAt(
+    { gateway: { bind: 'everywhere', port: 70000.5, auth: 'secret' } },
+    'gateway'
+  );
+  assert.deepEqual(issues, [
+    { path: 'gateway.bind', message: 'expected one of "lan", "loopback", got "everywhere"' },
+    { path: 'gateway.port', message: 'expected a whole number, got 70000.5' },
+    { path: 'gateway.auth', message: 'expected an object, got "secret"' },
+  ]);
+  assert.deepEqual(issuesAt(approval([{ tool: '' }]), 'approval'), [
+    { path: 'approval.rules[0].tool', message: 'must not be empty' },
+  ]);
+  assert.deepEqual(issuesAt({ approval: { enabled: 'yes', timeout: 0, rules: {} } }, 'approval'), [
+    { path: 'approval.enabled', message: 'expected true or false, got "yes"' },
+    { path: 'approval.timeout', message: 'must be at least 1, got 0' },
+    { path: 'approval.rules', message: 'expected an array, got an object' },
+  ]);
+});
+
+test('validateConfig rejects approval patterns that are not valid regular expressions', () => {
+  const issues = issuesAt(approval([{ tool: 'bash', pattern: '(rm|mv' }]), 'approval');
+  assert.equal(issues.length, 1);
+  assert.equal(issues[0].path, 'approval.rules[0].pattern');
+  assert.match(issues[0].message, /^not a valid regular expression: /);
+});
+
+test('formatConfigIssues lists one issue per line', () => {
+  assert.equal(
+    formatConfigIssues([
+      { path: 'gateway.port', message: 'is required' },
+      { path: '', message: 'expected an object, got null' },
+    ]),
+    '  - gateway.port: is required\n  - (root): expected an object, got null'
+  );
+});
@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileConversationStore } from '../src/conversations/conversationStore';
+import { ChatMessage } from '../src/llm/llmProvider';
+
+const user = (content: string): ChatMessage => ({ role: 'user', content });
+const assistant = (content: string): ChatMessage => ({ role: 'assistant', content });
+
+function tempDir(t: { after: (fn: () => void) => void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-conversations-'));
+  // Removed at exit, after the stores flush their pending index saves
+  t.after(() => process.once('exit', () => fs.rmSync(dir, { recursive: true, force: true })));
+  return dir;
+}
+
+test('append writes one JSON line per message and never rewrites the transcript', (t) => {
+  const dir = tempDir(t);
+  const store = new FileConversationStore(dir);
+  const file = path.join(dir, 'web%3Aa%2Fb.jsonl');
+
+  store.append('web:a/b', [user('hi'), assistant('hello')]);
+  const first = fs.readFileSync(file, 'utf-8');
+  assert.equal(first, '{"role":"user","content":"hi"}\n{"role":"assistant","content":"hello"}\n');
+
+  store.append('web:a/b', [user('again')]);
+  store.append('web:a/b', []);
+  const second = fs.readFileSync(file, 'utf-8');
+  assert.ok(second.startsWith(first));
+  assert.equal(second.split('\n').filter(Boolean).length, 3);
+  assert.deepEqual(store.load('web:a/b'), [user('hi'), assistant('hello'), user('again')]);
+});
+
+test('index.json is written once per delay, not on every message', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const dir = tempDir(t);
+  const store = new FileConversationStore(dir);
+  const indexPath = path.join(dir, 'index.json');
+
+  store.append('c1', [user('one')]);
+  store.append('c1', [assistant('two')]);
+  store.updateDetails('c1', { channel: 'web', sender: 'alice' });
+  assert.equal(fs.existsSync(indexPath), false);
+
+  t.mock.timers.tick(1000);
+  const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+  assert.equal(index.length, 1);
+  assert.equal(index[0].id, 'c1');
+  assert.equal(index[0].messageCount, 2);
+  assert.equal(index[0].sender, 'alice');
+  assert.deepEqual(fs.readdirSync(dir).sort(), ['c1.jsonl', 'index.json']);
+});
+
+test('a new store reloads transcripts and details after a restart', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const dir = tempDir(t);
+  const before = new FileConversationStore(dir);
+  before.append('c1', [user('hi'), assistant('hello')]);
+  before.updateDetails('c1', { agent: 'coder', model: 'llama3.2:3b' });
+  t.mock.timers.tick(1000);
+
+  const after = new FileConversationStore(dir);
+  assert.deepEqual(after.load('c1'), [user('hi'), assistant('hello')]);
+  const info = after.getInfo('c1');
+  assert.equal(info?.messageCount, 2);
+  assert.equal(info?.agent, 'coder');
+  assert.equal(info?.model, 'llama3.2:3b');
+  assert.deepEqual(after.list().map((i) => i.id), ['c1']);
+});
+
+test('transcripts without an index entry are indexed on startup', (t) => {
+  const dir = tempDir(t);
+  fs.writeFileSync(path.join(dir, 'old.jsonl'), '{"role":"user","content":"a"}\nnot json\n');
+
+  const store = new FileConversationStore(dir);
+  assert.equal(store.getInfo('old')?.messageCount, 2);
+  // The corrupt line is skipped when loading
+  assert.deepEqual(store.load('old'), [user('a')]);
+  assert.ok(fs.existsSync(path.join(dir, 'index.json')));
+});
+
+test('a compacted context is kept apart from the transcript', (t) => {
+  const dir = tempDir(t);
+  const store = new FileConversationStore(dir);
+  const transcript = [user('1'), assistant('2'), user('3'), assistant('4')];
+  store.append('c1', transcript);
+
+  const head: ChatMessage[] = [{ role: 'system', content: 'Summary: 1 and 2' }];
+  store.saveContext('c1', head, 2);
+  store.append('c1', [user('5')]);
+
+  const contextPath = path.join(dir, 'c1.context.json');
+  assert.deepEqual(JSON.parse(fs.readFileSync(contextPath, 'utf-8')), { head, offset: 2 });
+  assert.deepEqual(store.load('c1'), [...transcript, user('5')]);
+  assert.deepEqual(store.loadContext('c1'), [...head, user('3'), assistant('4'), user('5')]);
+
+  const reopened = new FileConversationStore(dir);
+  assert.deepEqual(reopened.loadContext('c1'), store.loadContext('c1'));
+});
+
+test('loadContext falls back to the transcript without a readable context', (t) => {
+  const dir = tempDir(t);
+  const store = new FileConversationStore(dir);
+  store.append('c1', [user('1')]);
+  assert.deepEqual(store.loadContext('c1'), [user('1')]);
+
+  fs.writeFileSync(path.join(dir, 'c1.context.json'), '{broken');
+  assert.deepEqual(store.loadContext('c1'), [user('1')]);
+});
+
+test('delete removes the transcript, the context and the index entry', (t) => {
+  const dir = tempDir(t);
+  const store = new FileConversationStore(dir);
+  store.append('c1', [user('1'), assistant('2')]);
+  store.saveContext('c1', [], 1);
+
+  store.delete('c1');
+  assert.deepEqual(store.load('c1'), []);
+  assert.equal(store.getInfo('c1'), null);
+  assert.equal(fs.existsSync(path.join(dir, 'c1.jsonl')), false);
+  assert.equal(fs.existsSync(path.join(dir, 'c1.context.json')), false);
+});
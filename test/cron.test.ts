@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextCronTime, parseCron } from '../src/scheduler/cron';
+
+// Cron times are local, so the dates here are built in local time too
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+test('parseCron expands numbers, ranges, lists and steps', () => {
+  const cron = parseCron('1,5-7 0-20/10 */10 5/3 *');
+  assert.deepEqual([...cron.minute.values], [1, 5, 6, 7]);
+  assert.deepEqual([...cron.hour.values], [0, 10, 20]);
+  assert.deepEqual([...cron.dayOfMonth.values], [1, 11, 21, 31]);
+  assert.deepEqual([...cron.month.values], [5, 8, 11]);
+  assert.equal(cron.dayOfWeek.values.size, 7);
+});
+
+test('parseCron treats day-of-week 7 as Sunday', () => {
+  assert.deepEqual([...parseCron('0 0 * * 7').dayOfWeek.values], [0]);
+});
+
+test('parseCron counts a field starting with * as a wildcard', () => {
+  const cron = parseCron('0 0 */2 * 1-5');
+  assert.equal(cron.dayOfMonth.wildcard, true);
+  assert.equal(cron.dayOfWeek.wildcard, false);
+});
+
+test('parseCron requires five fields', () => {
+  assert.throws(() => parseCron('* * * *'), /must have 5 fields .*got 4/);
+  assert.throws(() => parseCron('* * * * * *'), /got 6/);
+});
+
+test('parseCron rejects malformed tokens', () => {
+  for (const minute of ['5x', '1-5foo', '1-2-3', 'a', '1,,2', '-1', '1/2/3']) {
+    assert.throws(() => parseCron(`${minute} * * * *`), /Invalid minute field/, minute);
+  }
+});
+
+test('parseCron rejects malformed steps', () => {
+  for (const minute of ['*/2abc', '*/0', '*/', '1-5/x']) {
+    assert.throws(() => parseCron(`${minute} * * * *`), /Invalid step in minute field/, minute);
+  }
+});
+
+test('parseCron rejects values out of range', () => {
+  assert.throws(() => parseCron('60 * * * *'), /Invalid minute field: "60" \(allowed 0-59\)/);
+  assert.throws(() => parseCron('0 24 * * *'), /Invalid hour field/);
+  assert.throws(() => parseCron('0 0 0 * *'), /Invalid day-of-month field/);
+  assert.throws(() => parseCron('0 0 * 13 *'), /Invalid month field/);
+  assert.throws(() => parseCron('0 0 * * 8'), /Invalid day-of-week field/);
+  assert.throws(() => parseCron('5-1 * * * *'), /Invalid minute field: "5-1"/);
+});
+
+test('nextCronTime returns the next matching minute strictly after the given time', () => {
+  assert.deepEqual(nextCronTime('*/15 * * * *', at(2026, 1, 1, 10, 7)), at(2026, 1, 1, 10, 15));
+  assert.deepEqual(nextCronTime('*/15 * * * *', at(2026, 1, 1, 10, 15)), at(2026, 1, 1, 10, 30));
+  const withSeconds = new Date(2026, 0, 1, 10, 14, 59, 500);
+  assert.deepEqual(nextCronTime('*/15 * * * *', withSeconds), at(2026, 1, 1, 10, 15));
+});
+
+test('nextCronTime rolls over to the next day, month and year', () => {
+  assert.deepEqual(nextCronTime('0 9 * * *', at(2026, 1, 1, 10)), at(2026, 1, 2, 9));
+  assert.deepEqual(nextCronTime('0 0 1 * *', at(2026, 1, 15)), at(2026, 2, 1));
+  assert.deepEqual(nextCronTime('30 8 1 1 *', at(2026, 6, 1)), at(2027, 1, 1, 8, 30));
+});
+
+test('nextCronTime finds Feb 29 in the next leap year', () => {
+  assert.deepEqual(nextCronTime('0 0 29 2 *', at(2026, 1, 1)), at(2028, 2, 29));
+});
+
+test('nextCronTime matches either day field when both are restricted', () => {
+  // 2026-01-01 is a Thursday: the 13th or any Friday
+  assert.deepEqual(nextCronTime('0 0 13 * 5', at(2026, 1, 1)), at(2026, 1, 2));
+  assert.deepEqual(nextCronTime('0 0 13 * 5', at(2026, 1, 10)), at(2026, 1, 13));
+});
+
+test('nextCronTime matches both day fields when one starts with *', () => {
+  // Mondays on odd days: Jan 12 is even, Jan 19 odd
+  assert.deepEqual(nextCronTime('0 0 */2 * 1', at(2026, 1, 6)), at(2026, 1, 19));
+  assert.deepEqual(nextCronTime('0 0 * * 7', at(2026, 1, 1)), at(2026, 1, 4));
+});
+
+test('nextCronTime throws for an expression that never matches', () => {
+  assert.throws(() => nextCronTime('0 0 31 2 *', at(2026, 1, 1)), /never matches/);
+});
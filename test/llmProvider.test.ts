@@ -0,0 +1,289 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LLMConfig, LLMProvider } from '../src/llm/llmProvider';
+import { Logger, LogLevel } from '../src/utils/logger';
+
+// Retries and fallbacks log a warning each
+Logger.setLevel(LogLevel.ERROR);
+
+type Reply = (res: http.ServerResponse) => void;
+
+interface Received {
+  /** First path segment of the backend's baseURL. */
+  backend: string;
+  model: string;
+  authorization?: string;
+  at: number;
+}
+
+const ok =
+  (content: string): Reply =>
+  (res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      })
+    );
+  };
+
+const fail =
+  (status: number, headers: Record<string, string> = {}): Reply =>
+  (res) => {
+    res.writeHead(status, headers);
+    res.end(`status ${status}`);
+  };
+
+const dropConnection: Reply = (res) => res.socket?.destroy();
+
+/**
+ * An OpenAI-style server answering each backend's requests with its next
+ * reply in turn; baseURL(name) points a backend at it.
+ */
+async function stubServer(t: TestContext, replies: Record<string, Reply[]>) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const backend = (req.url || '').split('/')[1];
+      received.push({
+        backend,
+        model: JSON.parse(body).model,
+        authorization: req.headers.authorization,
+        at: Date.now(),
+      });
+      const reply = replies[backend]?.shift() || fail(404);
+      reply(res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  const { port } = server.address() as AddressInfo;
+  return { received, baseURL: (name: string) => `http://127.0.0.1:${port}/${name}` };
+}
+
+function provider(config: Partial<LLMConfig> & { baseURL: string }): LLMProvider {
+  return new LLMProvider({
+    provider: 'openai',
+    model: 'primary-model',
+    temperature: 0,
+    maxTokens: 100,
+    input: 'text',
+    apiKey: 'primary-key',
+    retries: { maxAttempts: 3, initialDelayMs: 20, maxDelayMs: 200 },
+    ...config,
+  });
+}
+
+const user = [{ role: 'user' as const, content: 'hi' }];
+
+const gaps = (received: Received[]) => received.slice(1).map((r, i) => r.at - received[i].at);
+
+test('retries 408, 429 and 5xx on the same backend', async (t) => {
+  const stub = await stubServer(t, { a: [fail(408), fail(429), fail(503), ok('hello')] });
+  const llm = provider({
+    baseURL: stub.baseURL('a'),
+    retries: { maxAttempts: 4, initialDelayMs: 1 },
+  });
+
+  const response = await llm.chat(user);
+  assert.equal(response.content, 'hello');
+  assert.deepEqual(response.backend, {
+    provider: 'openai',
+    baseURL: stub.baseURL('a'),
+    model: 'primary-model',
+    attempts: 4,
+    fallback: false,
+  });
+  assert.equal(stub.received.length, 4);
+});
+
+test('retries network errors', async (t) => {
+  const stub = await stubServer(t, { a: [dropConnection, ok('hello')] });
+  const response = await provider({ baseURL: stub.baseURL('a') }).chat(user);
+  assert.equal(response.content, 'hello');
+  assert.equal(response.backend?.attempts, 2);
+});
+
+test('does not retry other 4xx errors', async (t) => {
+  const stub = await stubServer(t, { a: [fail(400), ok('too late')] });
+  await assert.rejects(provider({ baseURL: stub.baseURL('a') }).chat(user), {
+    message: 'LLM request failed (400): status 400',
+  });
+  assert.equal(stub.received.length, 1);
+});
+
+test('gives up after maxAttempts and throws the last error', async (t) => {
+  const stub = await stubServer(t, { a: [fail(500), fail(502), fail(503), ok('too late')] });
+  await assert.rejects(provider({ baseURL: stub.baseURL('a') }).chat(user), {
+    message: 'LLM request failed (503): status 503',
+  });
+  assert.equal(stub.received.length, 3);
+});
+
+test('a request that does not start answering in timeoutMs is retried', async (t) => {
+  const hang: Reply = () => {};
+  const stub = await stubServer(t, { a: [hang, hang] });
+  await assert.rejects(
+    provider({
+      baseURL: stub.baseURL('a'),
+      timeoutMs: 50,
+      retries: { maxAttempts: 2 },
+    }).chat(user),
+    { message: 'LLM request timed out after 50ms' }
+  );
+  assert.equal(stub.received.length, 2);
+});
+
+test('backs off exponentially between retries', async (t) => {
+  // No jitter: each delay is exactly initialDelayMs doubled per retry
+  t.mock.method(Math, 'random', () => 0.5);
+  const stub = await stubServer(t, { a: [fail(503), fail(503), ok('hello')] });
+  await provider({
+    baseURL: stub.baseURL('a'),
+    retries: { initialDelayMs: 40, maxDelayMs: 1000 },
+  }).chat(user);
+
+  const [first, second] = gaps(stub.received);
+  assert.ok(first >= 40, `first retry after ${first}ms`);
+  assert.ok(second >= 80, `second retry after ${second}ms`);
+});
+
+test('backoff is capped at maxDelayMs', async (t) => {
+  t.mock.method(Math, 'random', () => 0.5);
+  const stub = await stubServer(t, { a: [fail(503), ok('hello')] });
+  await provider({
+    baseURL: stub.baseURL('a'),
+    retries: { initialDelayMs: 60000, maxDelayMs: 30 },
+  }).chat(user);
+
+  const [gap] = gaps(stub.received);
+  assert.ok(gap >= 30 && gap < 1000, `retried after ${gap}ms`);
+});
+
+test('waits for Retry-After instead of the backoff', async (t) => {
+  const stub = await stubServer(t, {
+    a: [fail(429, { 'Retry-After': '0.1' }), ok('hello')],
+  });
+  const response = await provider({
+    baseURL: stub.baseURL('a'),
+    retries: { initialDelayMs: 1 },
+  }).chat(user);
+
+  assert.equal(response.backend?.attempts, 2);
+  const [gap] = gaps(stub.received);
+  assert.ok(gap >= 100, `retried after ${gap}ms`);
+});
+
+test('a Retry-After longer than maxDelayMs moves on to the next backend', async (t) => {
+  const stub = await stubServer(t, {
+    a: [fail(503, { 'Retry-After': '60' }), ok('too late')],
+    b: [ok('from fallback')],
+  });
+  const started = Date.now();
+  const response = await provider({
+    baseURL: stub.baseURL('a'),
+    fallbacks: [{ baseURL: stub.baseURL('b'), model: 'fallback-model' }],
+  }).chat(user);
+
+  assert.equal(response.content, 'from fallback');
+  assert.deepEqual(stub.received.map((r) => r.backend), ['a', 'b']);
+  assert.ok(Date.now() - started < 1000);
+});
+
+test('tries the fallbacks in order with their own model and key', async (t) => {
+  const stub = await stubServer(t, {
+    a: [fail(400)],
+    b: [fail(503), fail(503), fail(503)],
+    c: [ok('from c')],
+  });
+  const llm = provider({
+    baseURL: stub.baseURL('a'),
+    retries: { initialDelayMs: 1 },
+    fallbacks: [
+      { baseURL: stub.baseURL('b'), model: 'b-model' },
+      { baseURL: stub.baseURL('c'), model: 'c-model', apiKey: 'c-key' },
+    ],
+  });
+
+  const response = await llm.chat(user);
+  assert.equal(response.content, 'from c');
+  assert.deepEqual(response.backend, {
+    provider: 'openai',
+    baseURL: stub.baseURL('c'),
+    model: 'c-model',
+    attempts: 1,
+    fallback: true,
+  });
+  assert.deepEqual(
+    stub.received.map((r) => [r.backend, r.model, r.authorization]),
+    [
+      ['a', 'primary-model', 'Bearer primary-key'],
+      // Another baseURL without its own apiKey gets none, not the primary's
+      ['b', 'b-model', undefined],
+      ['b', 'b-model', undefined],
+      ['b', 'b-model', undefined],
+      ['c', 'c-model', 'Bearer c-key'],
+    ]
+  );
+});
+
+test('a fallback on the same baseURL reuses the primary key', async (t) => {
+  const stub = await stubServer(t, { a: [fail(400), ok('hello')] });
+  await provider({ baseURL: stub.baseURL('a'), fallbacks: [{ model: 'other-model' }] }).chat(user);
+
+  assert.deepEqual(
+    stub.received.map((r) => [r.model, r.authorization]),
+    [
+      ['primary-model', 'Bearer primary-key'],
+      ['other-model', 'Bearer primary-key'],
+    ]
+  );
+});
+
+test('reports every backend when all of them fail', async (t) => {
+  const stub = await stubServer(t, { a: [fail(401)], b: [fail(400)] });
+  await assert.rejects(
+    provider({
+      baseURL: stub.baseURL('a'),
+      fallbacks: [{ baseURL: stub.baseURL('b'), model: 'b-model' }],
+    }).chat(user),
+    {
+      message:
+        'All LLM backends failed: openai/primary-model: LLM request failed (401): status 401; ' +
+        'openai/b-model: LLM request failed (400): status 400',
+    }
+  );
+});
+
+test('aborting during the backoff stops at once, without trying again or falling back', async (t) => {
+  const controller = new AbortController();
+  const stub = await stubServer(t, {
+    a: [
+      (res) => {
+        fail(503)(res);
+        setTimeout(() => controller.abort(), 20);
+      },
+      ok('too late'),
+    ],
+    b: [ok('too late')],
+  });
+  const started = Date.now();
+  await assert.rejects(
+    provider({
+      baseURL: stub.baseURL('a'),
+      retries: { initialDelayMs: 5000, maxDelayMs: 10000 },
+      fallbacks: [{ baseURL: stub.baseURL('b'), model: 'b-model' }],
+    }).chat(user, undefined, controller.signal),
+    { message: 'LLM request aborted' }
+  );
+
+  assert.ok(Date.now() - started < 2000);
+  assert.deepEqual(stub.received.map((r) => r.backend), ['a']);
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addUsage,
+  buildAgentPrompt,
+  completionChunk,
+  completionResponse,
+  OpenAIMessage,
+  OpenAIUsage,
+  openAIError,
+  usageChunk,
+} from '../src/gateway/openaiCompat';
+
+const history: OpenAIMessage[] = [
+  { role: 'system', content: 'Be brief.' },
+  { role: 'user', content: 'What is in /tmp?' },
+  { role: 'assistant', content: 'Two files.' },
+  { role: 'tool', content: '{"files": 2}' },
+  { role: 'user', content: [{ type: 'text', text: 'Delete them' }, { type: 'image_url' }] },
+];
+
+test('a persistent conversation only gets the last user message', () => {
+  assert.equal(buildAgentPrompt(history, true), 'Delete them');
+});
+
+test('a one-off request folds the earlier turns into the prompt', () => {
+  assert.equal(
+    buildAgentPrompt(history, false),
+    'Earlier in this conversation:\n\n' +
+      'Instructions: Be brief.\n\n' +
+      'User: What is in /tmp?\n\n' +
+      'Assistant: Two files.\n\n' +
+      'Current message:\nDelete them'
+  );
+});
+
+test('messages after the last user message are ignored', () => {
+  const messages: OpenAIMessage[] = [
+    { role: 'user', content: 'hi' },
+    { role: 'assistant', content: 'hello' },
+  ];
+  assert.equal(buildAgentPrompt(messages, false), 'hi');
+});
+
+test('text parts are joined and other content is dropped', () => {
+  const messages: OpenAIMessage[] = [
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: 'line 1' },
+        { type: 'text', text: '' },
+        { type: 'text', text: 'line 2' },
+      ],
+    },
+  ];
+  assert.equal(buildAgentPrompt(messages, true), 'line 1\nline 2');
+  assert.equal(buildAgentPrompt([{ role: 'user', content: null }], true), '');
+});
+
+test('a request without a user message has no prompt', () => {
+  assert.equal(buildAgentPrompt([{ role: 'system', content: 'x' }], false), null);
+  assert.equal(buildAgentPrompt([], true), null);
+});
+
+test('addUsage sums the usage of several LLM calls', () => {
+  const total: OpenAIUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  addUsage(total, { prompt_tokens: 100, completion_tokens: 10, total_tokens: 110 });
+  addUsage(total, { prompt_tokens: 50 });
+  assert.deepEqual(total, { prompt_tokens: 150, completion_tokens: 10, total_tokens: 160 });
+});
+
+test('responses and chunks follow the OpenAI format', (t) => {
+  t.mock.method(Date, 'now', () => 1_700_000_000_500);
+  const usage: OpenAIUsage = { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 };
+
+  assert.deepEqual(completionResponse('chatcmpl-1', 'default', 'Done.', usage), {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 1_700_000_000,
+    model: 'default',
+    choices: [{ index: 0, message: { role: 'assistant', content: 'Done.' }, finish_reason: 'stop' }],
+    usage,
+  });
+  assert.deepEqual(completionChunk('chatcmpl-1', 'default', { content: 'Do' }).choices, [
+    { index: 0, delta: { content: 'Do' }, finish_reason: null },
+  ]);
+  assert.equal(completionChunk('chatcmpl-1', 'default', {}, 'stop').choices[0].finish_reason, 'stop');
+  assert.deepEqual(usageChunk('chatcmpl-1', 'default', usage), {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 1_700_000_000,
+    model: 'default',
+    choices: [],
+    usage,
+  });
+});
+
+test('openAIError fills the optional fields with null', () => {
+  assert.deepEqual(openAIError('No such model', 'invalid_request_error', 'model_not_found'), {
+    error: {
+      message: 'No such model',
+      type: 'invalid_request_error',
+      param: null,
+      code: 'model_not_found',
+    },
+  });
+});
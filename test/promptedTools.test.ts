@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseToolCalls, repairJson } from '../src/llm/promptedTools';
+
+const TOOLS = ['bash', 'read_file'];
+
+test('repairJson parses valid JSON unchanged', () => {
+  assert.deepEqual(repairJson('{"a": [1, 2], "b": "c"}'), { a: [1, 2], b: 'c' });
+});
+
+test('repairJson repairs the usual model mistakes', () => {
+  assert.deepEqual(repairJson('```json\n{"a": 1}\n```'), { a: 1 });
+  assert.deepEqual(repairJson('{"a": 1, "b": [1, 2,],}'), { a: 1, b: [1, 2] });
+  assert.deepEqual(repairJson("{'a': 'b'}"), { a: 'b' });
+  assert.deepEqual(repairJson('{a: 1, long_key: 2}'), { a: 1, long_key: 2 });
+  assert.deepEqual(repairJson('{"a": True, "b": False, "c": None}'), { a: true, b: false, c: null });
+  assert.deepEqual(repairJson('{“a”: “b”}'), { a: 'b' });
+  assert.deepEqual(repairJson('{"cmd": "line 1\nline 2\tend"}'), { cmd: 'line 1\nline 2\tend' });
+});
+
+test('repairJson closes brackets and strings left open', () => {
+  assert.deepEqual(repairJson('{"a": {"b": [1, 2'), { a: { b: [1, 2] } });
+  assert.deepEqual(repairJson('{"a": "unfinished'), { a: 'unfinished' });
+  assert.deepEqual(repairJson('{"a": 1,'), { a: 1 });
+});
+
+test('repairJson returns null when nothing works', () => {
+  assert.equal(repairJson('not json at all'), null);
+  assert.equal(repairJson('{"a": }'), null);
+});
+
+test('parseToolCalls reads <tool_call> blocks and removes them from the text', () => {
+  const text =
+    'Let me look.\n<tool_call>\n{"name": "bash", "arguments": {"command": "ls"}}\n</tool_call>';
+  const { content, toolCalls } = parseToolCalls(text, TOOLS);
+  assert.equal(content, 'Let me look.');
+  assert.equal(toolCalls.length, 1);
+  assert.equal(toolCalls[0].type, 'function');
+  assert.equal(toolCalls[0].function.name, 'bash');
+  assert.deepEqual(JSON.parse(toolCalls[0].function.arguments), { command: 'ls' });
+});
+
+test('parseToolCalls reads several blocks and arrays of calls in order', () => {
+  const text =
+    '<tool_call>{"name": "bash", "arguments": {"command": "pwd"}}</tool_call>\n' +
+    '<tool_call>[{"name": "read_file", "arguments": {"path": "a"}}, ' +
+    '{"name": "read_file", "arguments": {"path": "b"}}]</tool_call>';
+  const { content, toolCalls } = parseToolCalls(text, TOOLS);
+  assert.equal(content, '');
+  assert.deepEqual(
+    toolCalls.map((c) => JSON.parse(c.function.arguments)),
+    [{ command: 'pwd' }, { path: 'a' }, { path: 'b' }]
+  );
+  assert.equal(new Set(toolCalls.map((c) => c.id)).size, 3);
+});
+
+test('parseToolCalls accepts a block left open at the end', () => {
+  const { toolCalls } = parseToolCalls(
+    'Running it.\n<tool_call>\n{"name": "bash", "arguments": {"command": "ls -la"',
+    TOOLS
+  );
+  assert.equal(toolCalls.length, 1);
+  assert.deepEqual(JSON.parse(toolCalls[0].function.arguments), { command: 'ls -la' });
+});
+
+test('parseToolCalls accepts other call shapes and string arguments', () => {
+  const text =
+    '<tool_call>{"tool": "bash", "parameters": {"command": "a"}}</tool_call>' +
+    '<tool_call>{"function": {"name": "bash", "arguments": "{\\"command\\": \\"b\\"}"}}</tool_call>' +
+    "<tool_call>{'name': 'bash', 'arguments': {'command': 'c',}}</tool_call>";
+  const { toolCalls } = parseToolCalls(text, TOOLS);
+  assert.deepEqual(
+    toolCalls.map((c) => JSON.parse(c.function.arguments)),
+    [{ command: 'a' }, { command: 'b' }, { command: 'c' }]
+  );
+});
+
+test('parseToolCalls ignores JSON outside <tool_call> blocks', () => {
+  const fenced = 'Example:\n```json\n{"name": "bash", "arguments": {"command": "rm -rf /"}}\n```';
+  const bare = 'Call it like {"name": "bash", "arguments": {"command": "ls"}}.';
+  for (const text of [fenced, bare]) {
+    const result = parseToolCalls(text, TOOLS);
+    assert.equal(result.toolCalls.length, 0);
+    assert.equal(result.content, text);
+  }
+});
+
+test('parseToolCalls ignores calls to unknown tools and keeps their text', () => {
+  const text = 'Hi\n<tool_call>{"name": "delete_everything", "arguments": {}}</tool_call>';
+  const result = parseToolCalls(text, TOOLS);
+  assert.equal(result.toolCalls.length, 0);
+  assert.equal(result.content, text);
+});
+
+test('parseToolCalls leaves text without calls untouched', () => {
+  const text = '  Just an answer.\n';
+  assert.deepEqual(parseToolCalls(text, TOOLS), { content: text, toolCalls: [] });
+});
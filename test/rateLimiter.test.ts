@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConcurrencyLimiter, RateLimiter } from '../src/gateway/rateLimiter';
+
+test('RateLimiter allows max hits per window, then rejects until it resets', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limiter = new RateLimiter('test', { windowMs: 60_000, max: 2 });
+
+  assert.equal(limiter.hit('a').allowed, true);
+  now += 10_000;
+  assert.equal(limiter.hit('a').allowed, true);
+
+  assert.deepEqual(limiter.hit('a'), { allowed: false, retryAfterMs: 50_000, firstRejection: true });
+  now += 20_000;
+  assert.deepEqual(limiter.hit('a'), {
+    allowed: false,
+    retryAfterMs: 30_000,
+    firstRejection: false,
+  });
+
+  now += 30_000;
+  assert.equal(limiter.hit('a').allowed, true);
+});
+
+test('RateLimiter counts each key separately', (t) => {
+  t.mock.method(Date, 'now', () => 1_000_000);
+  const limiter = new RateLimiter('test', { windowMs: 1000, max: 1 });
+  assert.equal(limiter.hit('a').allowed, true);
+  assert.equal(limiter.hit('a').allowed, false);
+  assert.equal(limiter.hit('b').allowed, true);
+  assert.deepEqual(limiter.getStatus(), {
+    windowMs: 1000,
+    max: 1,
+    activeKeys: 2,
+    allowed: 2,
+    rejected: 1,
+  });
+});
+
+test('RateLimiter drops expired windows', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limiter = new RateLimiter('test', { windowMs: 1000, max: 5 });
+  limiter.hit('a');
+  limiter.hit('b');
+  now += 1000;
+  assert.equal(limiter.getStatus().activeKeys, 0);
+});
+
+test('RateLimiter with max 0 never rejects', () => {
+  const limiter = new RateLimiter('test', { windowMs: 1000, max: 0 });
+  for (let i = 0; i < 100; i++) {
+    assert.equal(limiter.hit('a').allowed, true);
+  }
+  assert.equal(limiter.getStatus().activeKeys, 0);
+});
+
+test('ConcurrencyLimiter admits up to max runs at once', () => {
+  const limiter = new ConcurrencyLimiter(2);
+  assert.equal(limiter.tryAcquire(), true);
+  assert.equal(limiter.tryAcquire(), true);
+  assert.equal(limiter.tryAcquire(), false);
+
+  limiter.release();
+  assert.equal(limiter.tryAcquire(), true);
+  assert.deepEqual(limiter.getStatus(), { active: 2, max: 2, rejected: 1 });
+});
+
+test('ConcurrencyLimiter.acquire takes a slot past the limit', () => {
+  const limiter = new ConcurrencyLimiter(1);
+  limiter.acquire();
+  limiter.acquire();
+  assert.equal(limiter.getStatus().active, 2);
+  assert.equal(limiter.tryAcquire(), false);
+});
+
+test('ConcurrencyLimiter never goes below zero and max 0 is unlimited', () => {
+  const limiter = new ConcurrencyLimiter(0);
+  limiter.release();
+  assert.equal(limiter.getStatus().active, 0);
+  for (let i = 0; i < 10; i++) assert.equal(limiter.tryAcquire(), true);
+  assert.deepEqual(limiter.getStatus(), { active: 10, max: 0, rejected: 0 });
+});
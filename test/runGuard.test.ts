@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RunGuard, RunLimitsConfig } from '../src/gateway/runGuard';
+
+function guard(limits: Partial<RunLimitsConfig> = {}): RunGuard {
+  return new RunGuard({
+    maxIterations: 10,
+    maxRunMs: 0,
+    maxToolResultChars: 1000,
+    maxRepeatedCalls: 2,
+    maxConsecutiveErrors: 3,
+    toolCalls: {},
+    ...limits,
+  });
+}
+
+test('refuses an exact repeat once it ran maxRepeatedCalls times', () => {
+  const g = guard();
+  const args = { path: 'a.txt', lines: 10 };
+  assert.equal(g.refuse('read_file', args), null);
+  g.record('read_file', args, 'ENOENT: no such file', true);
+  assert.equal(g.refuse('read_file', args), null);
+  g.record('read_file', args, 'ENOENT: no such file', true);
+
+  // Same arguments in another order are the same call
+  const refusal = g.refuse('read_file', { lines: 10, path: 'a.txt' });
+  assert.match(refusal ?? '', /already ran 2 times and failed:\nENOENT: no such file/);
+  assert.equal(g.refuse('read_file', { path: 'b.txt', lines: 10 }), null);
+});
+
+test('a refused repeat of a successful call shows its result', () => {
+  const g = guard({ maxRepeatedCalls: 1 });
+  g.record('bash', { command: 'date' }, 'Mon Jan 5', false);
+  assert.match(g.refuse('bash', { command: 'date' }) ?? '', /with this result:\nMon Jan 5/);
+});
+
+test('enforces per-tool call limits, with "*" for the other tools', () => {
+  const g = guard({ maxRepeatedCalls: 10, toolCalls: { web_fetch: 1, '*': 2 } });
+  g.record('web_fetch', { url: 'a' }, 'ok', false);
+  assert.equal(
+    g.refuse('web_fetch', { url: 'b' }),
+    'Not executed: web_fetch may be called at most 1 time per request. Continue without it.'
+  );
+
+  g.record('bash', { command: 'a' }, 'ok', false);
+  assert.equal(g.refuse('bash', { command: 'b' }), null);
+  g.record('bash', { command: 'b' }, 'ok', false);
+  assert.match(g.refuse('bash', { command: 'c' }) ?? '', /at most 2 times per request/);
+  assert.equal(g.refuse('read_file', { path: 'a' }), null);
+});
+
+test('check hints after a refused repeat, then stops', () => {
+  const g = guard({ maxRepeatedCalls: 1 });
+  assert.deepEqual(g.check(), { action: 'continue' });
+
+  g.record('bash', { command: 'ls' }, 'boom', true);
+  assert.notEqual(g.refuse('bash', { command: 'ls' }), null);
+  const verdict = g.check();
+  assert.equal(verdict.action, 'hint');
+  assert.match(verdict.action === 'hint' ? verdict.message : '', /repeated a tool call/);
+  assert.deepEqual(g.check(), { action: 'continue' });
+
+  g.refuse('bash', { command: 'ls' });
+  assert.deepEqual(g.check(), { action: 'stop' });
+});
+
+test('check hints after maxConsecutiveErrors failures in a row', () => {
+  const g = guard({ maxConsecutiveErrors: 2 });
+  g.record('bash', { command: 'a' }, 'error', true);
+  g.record('bash', { command: 'b' }, 'ok', false);
+  g.record('bash', { command: 'c' }, 'error', true);
+  assert.deepEqual(g.check(), { action: 'continue' });
+
+  g.record('bash', { command: 'd' }, 'error', true);
+  const verdict = g.check();
+  assert.equal(verdict.action, 'hint');
+  assert.match(verdict.action === 'hint' ? verdict.message : '', /Your last 2 tool calls failed/);
+
+  g.record('bash', { command: 'e' }, 'error', true);
+  g.record('bash', { command: 'f' }, 'error', true);
+  assert.deepEqual(g.check(), { action: 'stop' });
+});
+
+test('maxConsecutiveErrors of 0 never hints about failures', () => {
+  const g = guard({ maxConsecutiveErrors: 0 });
+  for (const command of ['a', 'b', 'c', 'd']) g.record('bash', { command }, 'error', true);
+  assert.deepEqual(g.check(), { action: 'continue' });
+});
+
+test('isOutOfTime follows maxRunMs, with 0 for no limit', (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const limited = guard({ maxRunMs: 5000 });
+  const unlimited = guard({ maxRunMs: 0 });
+
+  now += 4999;
+  assert.equal(limited.isOutOfTime(), false);
+  now += 1;
+  assert.equal(limited.isOutOfTime(), true);
+  assert.equal(unlimited.isOutOfTime(), false);
+});
+
+test('summary lists what the run tried', () => {
+  const g = guard();
+  assert.equal(g.summary(), 'No tools were run.');
+
+  g.record('bash', { command: 'make' }, 'Exit code: 2\nmake: *** No rule\n', true);
+  g.record('bash', { command: 'make' }, 'Exit code: 2\nmake: *** No rule\n', true);
+  g.record('read_file', { path: 'Makefile' }, '', false);
+  assert.equal(
+    g.summary(),
+    'What I tried:\n' +
+      '- bash {"command":"make"}, 2 times (failed): Exit code: 2 / make: *** No rule\n' +
+      '- read_file {"path":"Makefile"} (ok): (no output)'
+  );
+});
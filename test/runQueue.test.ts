@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RunQueue } from '../src/gateway/runQueue';
+
+/** A task that records when it starts and finishes only when released. */
+function gate(log: string[], name: string) {
+  let release: (value: string) => void = () => {};
+  const done = new Promise<string>((resolve) => (release = resolve));
+  return {
+    task: () => {
+      log.push(`start ${name}`);
+      return done.then((value) => {
+        log.push(`end ${name}`);
+        return value;
+      });
+    },
+    release: (value = name) => release(value),
+  };
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test('runs for the same key one at a time, in order', async () => {
+  const queue = new RunQueue();
+  const log: string[] = [];
+  const a = gate(log, 'a');
+  const b = gate(log, 'b');
+
+  const first = queue.run('c1', a.task);
+  const second = queue.run('c1', b.task);
+  await settle();
+  assert.deepEqual(log, ['start a']);
+
+  a.release();
+  assert.equal(await first, 'a');
+  await settle();
+  assert.deepEqual(log, ['start a', 'end a', 'start b']);
+
+  b.release('done');
+  assert.equal(await second, 'done');
+});
+
+test('runs for different keys do not wait for each other', async () => {
+  const queue = new RunQueue();
+  const log: string[] = [];
+  const a = gate(log, 'a');
+  const b = gate(log, 'b');
+
+  const first = queue.run('c1', a.task);
+  const second = queue.run('c2', b.task);
+  await settle();
+  assert.deepEqual(log, ['start a', 'start b']);
+
+  b.release();
+  await second;
+  a.release();
+  await first;
+});
+
+test('a failed run does not block the next one for its key', async () => {
+  const queue = new RunQueue();
+  const failed = queue.run('c1', async () => {
+    throw new Error('boom');
+  });
+  const next = queue.run('c1', async () => 'ok');
+
+  await assert.rejects(failed, /boom/);
+  assert.equal(await next, 'ok');
+});
+
+test('depth counts running and waiting runs and drops to zero when done', async () => {
+  const queue = new RunQueue();
+  const log: string[] = [];
+  const a = gate(log, 'a');
+  const b = gate(log, 'b');
+
+  const runs = [queue.run('c1', a.task), queue.run('c1', b.task), queue.run('c2', async () => 'x')];
+  assert.equal(queue.getDepth('c1'), 2);
+  assert.deepEqual(queue.getStatus(), { c1: 2, c2: 1 });
+
+  a.release();
+  await runs[0];
+  await settle();
+  assert.equal(queue.getDepth('c1'), 1);
+
+  b.release();
+  await Promise.all(runs);
+  await settle();
+  assert.equal(queue.getDepth('c1'), 0);
+  assert.deepEqual(queue.getStatus(), {});
+});
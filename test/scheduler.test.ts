@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScheduledTask, Scheduler } from '../src/scheduler/scheduler';
+
+function tempDir(t: { after: (fn: () => void) => void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-scheduler-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+const storedIds = (dir: string): string[] =>
+  JSON.parse(fs.readFileSync(path.join(dir, 'schedules.json'), 'utf-8')).map(
+    (task: ScheduledTask) => task.id
+  );
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test('a one-shot task stays stored until its run settles', async (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const dir = tempDir(t);
+  const scheduler = new Scheduler({ enabled: true, tickInterval: 60_000 }, dir);
+  const task = scheduler.create({
+    prompt: 'remind me',
+    runAt: now + 1000,
+    conversationId: 'c1',
+    agent: 'default',
+  });
+
+  let finish: () => void = () => {};
+  const started: string[] = [];
+  now += 1000;
+  scheduler.start((due) => {
+    started.push(due.id);
+    return new Promise<void>((resolve) => (finish = resolve));
+  });
+  t.after(() => scheduler.stop());
+
+  assert.deepEqual(started, [task.id]);
+  // A restart now would load the task and run it again
+  assert.deepEqual(storedIds(dir), [task.id]);
+  assert.equal(new Scheduler({ enabled: false, tickInterval: 1 }, dir).list().length, 1);
+
+  finish();
+  await settle();
+  assert.deepEqual(storedIds(dir), []);
+  assert.equal(scheduler.get(task.id), null);
+});
+
+test('a one-shot task whose run fails is removed too, and never runs twice', async (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  t.mock.timers.enable({ apis: ['setInterval'] });
+  const dir = tempDir(t);
+  const scheduler = new Scheduler({ enabled: true, tickInterval: 1000 }, dir);
+  scheduler.create({ prompt: 'x', runAt: now + 1000, conversationId: 'c1', agent: 'default' });
+
+  let runs = 0;
+  let fail: (err: Error) => void = () => {};
+  now += 1000;
+  scheduler.start(() => {
+    runs++;
+    return new Promise<void>((_resolve, reject) => (fail = reject));
+  });
+  t.after(() => scheduler.stop());
+
+  // Still due and stored while it runs, but not started again
+  now += 1000;
+  t.mock.timers.tick(1000);
+  assert.equal(runs, 1);
+
+  fail(new Error('LLM down'));
+  await settle();
+  assert.deepEqual(storedIds(dir), []);
+});
+
+test('a cron task moves to its next time before it runs', (t) => {
+  const dir = tempDir(t);
+  const scheduler = new Scheduler({ enabled: true, tickInterval: 60_000 }, dir);
+  const task = scheduler.create({
+    prompt: 'check',
+    cron: '* * * * *',
+    conversationId: 'c1',
+    agent: 'default',
+  });
+  const first = task.nextRunAt;
+
+  t.mock.method(Date, 'now', () => first);
+  let runs = 0;
+  scheduler.start(async () => {
+    runs++;
+  });
+  t.after(() => scheduler.stop());
+
+  assert.equal(runs, 1);
+  assert.equal(scheduler.get(task.id)?.nextRunAt, first + 60_000);
+  assert.deepEqual(storedIds(dir), [task.id]);
+});
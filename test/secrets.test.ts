@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigIssue } from '../src/config/configSchema';
+import {
+  redactSecrets,
+  ResolvedSecret,
+  resolveReferences,
+  restoreReferences,
+} from '../src/config/secrets';
+
+function resolve(value: unknown) {
+  const resolved: ResolvedSecret[] = [];
+  const issues: ConfigIssue[] = [];
+  const result = resolveReferences(value, resolved, issues);
+  return { result, resolved, issues };
+}
+
+function withEnv(vars: Record<string, string>, fn: () => void): void {
+  Object.assign(process.env, vars);
+  try {
+    fn();
+  } finally {
+    for (const name of Object.keys(vars)) delete process.env[name];
+  }
+}
+
+test('resolveReferences replaces ${VAR} placeholders and records them', () => {
+  withEnv({ OPENCLAW_TEST_KEY: 'sk-123', OPENCLAW_TEST_HOST: 'ollama' }, () => {
+    const { result, resolved, issues } = resolve({
+      llm: { apiKey: '${OPENCLAW_TEST_KEY}', baseURL: 'http://${OPENCLAW_TEST_HOST}:11434/v1' },
+      port: 18789,
+    });
+    assert.deepEqual(result, {
+      llm: { apiKey: 'sk-123', baseURL: 'http://ollama:11434/v1' },
+      port: 18789,
+    });
+    assert.deepEqual(resolved, [
+      { path: 'llm.apiKey', reference: '${OPENCLAW_TEST_KEY}', value: 'sk-123' },
+      {
+        path: 'llm.baseURL',
+        reference: 'http://${OPENCLAW_TEST_HOST}:11434/v1',
+        value: 'http://ollama:11434/v1',
+      },
+    ]);
+    assert.deepEqual(issues, []);
+  });
+});
+
+test('resolveReferences keeps $${...} as a literal ${...}', () => {
+  const { result, resolved } = resolve({ prompt: 'Use $${HOME} as is' });
+  assert.deepEqual(result, { prompt: 'Use ${HOME} as is' });
+  assert.equal(resolved.length, 1);
+});
+
+test('resolveReferences reads file: references without the trailing newline', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-secrets-'));
+  try {
+    const file = path.join(dir, 'token');
+    fs.writeFileSync(file, 'from-file\n');
+    const { result, resolved } = resolve({ tokens: [`file:${file}`] });
+    assert.deepEqual(result, { tokens: ['from-file'] });
+    assert.equal(resolved[0].path, 'tokens[0]');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('resolveReferences reports references that cannot be resolved', () => {
+  delete process.env.OPENCLAW_TEST_MISSING;
+  const { result, issues } = resolve({
+    llm: { apiKey: '${OPENCLAW_TEST_MISSING}' },
+    gateway: { auth: { token: 'file:/nonexistent/openclaw-token' } },
+  });
+  assert.deepEqual(result, { llm: { apiKey: '' }, gateway: { auth: { token: '' } } });
+  assert.deepEqual(issues, [
+    { path: 'llm.apiKey', message: 'environment variable OPENCLAW_TEST_MISSING is not set' },
+    {
+      path: 'gateway.auth.token',
+      message: 'cannot read secret file /nonexistent/openclaw-token: ENOENT',
+    },
+  ]);
+});
+
+test('restoreReferences puts references back only at the paths they came from', () => {
+  const resolved: ResolvedSecret[] = [
+    { path: 'llm.apiKey', reference: '${OPENCLAW_TEST_KEY}', value: 'sk-123' },
+  ];
+  const config = {
+    llm: { apiKey: 'sk-123', model: 'sk-123', fallbacks: [{ apiKey: 'sk-123' }] },
+  };
+  assert.deepEqual(restoreReferences(config, resolved), {
+    llm: { apiKey: '${OPENCLAW_TEST_KEY}', model: 'sk-123', fallbacks: [{ apiKey: 'sk-123' }] },
+  });
+});
+
+test('restoreReferences keeps a value changed since it was resolved', () => {
+  const resolved: ResolvedSecret[] = [
+    { path: 'llm.apiKey', reference: '${OPENCLAW_TEST_KEY}', value: 'sk-123' },
+  ];
+  assert.deepEqual(restoreReferences({ llm: { apiKey: 'sk-new' } }, resolved), {
+    llm: { apiKey: 'sk-new' },
+  });
+});
+
+test('redactSecrets hides resolved values and secret settings', () => {
+  const resolved: ResolvedSecret[] = [
+    { path: 'llm.baseURL', reference: '${OPENCLAW_TEST_URL}', value: 'http://internal' },
+  ];
+  const config = {
+    gateway: { auth: { token: 'plain-token', tokens: [{ name: 'ci', hash: 'abc' }] } },
+    llm: { baseURL: 'http://internal', model: 'llama', apiKey: '' },
+    webhooks: [{ secret: 'hook-secret' }],
+  };
+  assert.deepEqual(redactSecrets(config, resolved), {
+    gateway: { auth: { token: '***hidden***', tokens: [{ name: 'ci', hash: 'abc' }] } },
+    llm: { baseURL: '***hidden***', model: 'llama', apiKey: '' },
+    webhooks: [{ secret: '***hidden***' }],
+  });
+  assert.equal(config.gateway.auth.token, 'plain-token');
+});
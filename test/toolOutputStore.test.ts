@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatPreview, ToolOutputStore } from '../src/tools/toolOutputStore';
+
+const numbered = (count: number, prefix = 'line') =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i}`).join('\n');
+
+function tempStore(t: { after: (fn: () => void) => void }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-tool-outputs-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return { dir, store: new ToolOutputStore(dir) };
+}
+
+function reader(store: ToolOutputStore, conversationId = 'web:a') {
+  const tool = store.getTool();
+  return (args: Record<string, unknown>) => tool.execute(args, { conversationId });
+}
+
+test('save writes one file per artifact and load reads it back', (t) => {
+  const { dir, store } = tempStore(t);
+  store.save('web:a/b', 'abc-1', 'full output');
+
+  assert.equal(
+    fs.readFileSync(path.join(dir, 'tool-outputs', 'web%3Aa%2Fb', 'abc-1.txt'), 'utf-8'),
+    'full output'
+  );
+  assert.equal(store.load('web:a/b', 'abc-1'), 'full output');
+  assert.equal(store.load('web:a/b', 'missing'), null);
+  assert.equal(store.load('web:other', 'abc-1'), null);
+});
+
+test('load refuses ids that could point outside the directory', (t) => {
+  const { store } = tempStore(t);
+  store.save('web:a', 'abc-1', 'secret');
+  assert.equal(store.load('web:a', '../web%3Aa/abc-1'), null);
+  assert.equal(store.load('web:a', 'abc-1.txt'), null);
+});
+
+test('delete removes every artifact of a conversation', (t) => {
+  const { store } = tempStore(t);
+  store.save('web:a', 'abc-1', 'one');
+  store.save('web:a', 'abc-2', 'two');
+  store.save('web:b', 'abc-1', 'other');
+
+  store.delete('web:a');
+  assert.equal(store.load('web:a', 'abc-1'), null);
+  assert.equal(store.load('web:a', 'abc-2'), null);
+  assert.equal(store.load('web:b', 'abc-1'), 'other');
+});
+
+test('pages through an artifact by offset and limit', async (t) => {
+  const { store } = tempStore(t);
+  store.save('web:a', 'abc-1', numbered(250));
+  const read = reader(store);
+
+  const first = await read({ id: 'abc-1' });
+  assert.ok(first.startsWith('Lines 0-99 of 250 in abc-1. Continue with offset 100.\n\n'));
+  assert.ok(first.endsWith('\nline 99'));
+
+  const middle = await read({ id: 'abc-1', offset: 100, limit: 5 });
+  assert.equal(
+    middle,
+    'Lines 100-104 of 250 in abc-1. Continue with offset 105.\n\nline 100\nline 101\nline 102\nline 103\nline 104'
+  );
+
+  const last = await read({ id: 'abc-1', offset: 240 });
+  assert.ok(last.startsWith('Lines 240-249 of 250 in abc-1. End of output.'));
+
+  assert.equal(
+    await read({ id: 'abc-1', offset: 250 }),
+    'Output abc-1 has 250 lines; offset 250 is past the end.'
+  );
+});
+
+test('a page stops short of the character limit, and long lines are clipped', async (t) => {
+  const { store } = tempStore(t);
+  const long = 'x'.repeat(1500);
+  store.save('web:a', 'abc-1', [long, long, long, long, long].join('\n'));
+
+  const page = await reader(store)({ id: 'abc-1', limit: 5 });
+  assert.ok(page.startsWith('Lines 0-2 of 5 in abc-1. Continue with offset 3.'));
+  assert.ok(page.includes(`${'x'.repeat(1000)} [...500 chars]`));
+  assert.ok(!page.includes('x'.repeat(1001)));
+});
+
+test('searches lines from offset on, with line numbers', async (t) => {
+  const { store } = tempStore(t);
+  store.save('web:a', 'abc-1', ['ok', 'ERROR one', 'ok', 'error two', 'ok'].join('\n'));
+  const read = reader(store);
+
+  assert.equal(
+    await read({ id: 'abc-1', pattern: 'error' }),
+    '2 matching lines in abc-1 (line number: text).\n\n1: ERROR one\n3: error two'
+  );
+  assert.equal(
+    await read({ id: 'abc-1', pattern: 'error', offset: 2 }),
+    '1 matching lines in abc-1 (line number: text).\n\n3: error two'
+  );
+  assert.equal(
+    await read({ id: 'abc-1', pattern: 'missing' }),
+    'No lines matching /missing/ in abc-1 from line 0 on.'
+  );
+  assert.match(await read({ id: 'abc-1', pattern: '(' }), /^Invalid pattern: /);
+});
+
+test('a search stops after 50 matches and says where to go on', async (t) => {
+  const { store } = tempStore(t);
+  store.save('web:a', 'abc-1', numbered(80, 'match'));
+
+  const result = await reader(store)({ id: 'abc-1', pattern: 'match' });
+  assert.ok(
+    result.startsWith(
+      '50 matching lines in abc-1 (line number: text). More may follow; search again with offset 50.'
+    )
+  );
+});
+
+test('only finds artifacts of the calling conversation', async (t) => {
+  const { store } = tempStore(t);
+  store.save('web:a', 'abc-1', 'mine');
+
+  assert.equal(
+    await reader(store, 'web:b')({ id: 'abc-1' }),
+    'No stored output with id "abc-1" in this conversation.'
+  );
+  assert.equal(
+    await store.getTool().execute({ id: 'abc-1' }, {}),
+    'No stored output with id "abc-1" in this conversation.'
+  );
+});
+
+test('formatPreview shows the start and end within maxChars', () => {
+  const output = `${'a'.repeat(5000)}${'z'.repeat(5000)}`;
+  const preview = formatPreview('bash', 'abc-1', output, 1000);
+
+  assert.ok(preview.startsWith('[bash output is 10000 chars (1 lines).'));
+  assert.ok(preview.includes('call read_tool_output with id "abc-1"'));
+  const header = preview.split('\n\n')[0];
+  const budget = 1000 - header.length;
+  const head = 'a'.repeat(Math.ceil(budget * 0.6));
+  const tail = 'z'.repeat(budget - head.length);
+  assert.equal(
+    preview,
+    `${header}\n\n${head}\n\n[...${10000 - budget} chars omitted...]\n\n${tail}`
+  );
+});
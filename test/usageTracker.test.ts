@@ -0,0 +1,155 @@
+import { test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatQuotaMessage, UsageConfig, UsageTracker } from '../src/usage/usageTracker';
+
+// Days are local, so the clock is set in local time too
+const at = (year: number, month: number, day: number, hour = 12) =>
+  new Date(year, month - 1, day, hour).getTime();
+
+function setup(t: TestContext, config: Partial<UsageConfig> = {}, now = at(2026, 3, 15)) {
+  t.mock.timers.enable({ apis: ['Date', 'setTimeout'], now });
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-usage-'));
+  // Removed at exit, after the tracker flushes its pending save
+  t.after(() => process.once('exit', () => fs.rmSync(dir, { recursive: true, force: true })));
+  const fullConfig: UsageConfig = { enabled: true, quotas: {}, ...config };
+  return { dir, tracker: new UsageTracker(fullConfig, dir), config: fullConfig };
+}
+
+const tokens = (prompt: number, completion: number) => ({
+  prompt_tokens: prompt,
+  completion_tokens: completion,
+  total_tokens: prompt + completion,
+});
+
+test('summarize groups usage by each dimension', (t) => {
+  const { tracker } = setup(t);
+  const alice = { conversationId: 'c1', channel: 'whatsapp', sender: 'alice', model: 'm1' };
+  tracker.record({ ...alice, usage: tokens(100, 20) });
+  tracker.record({ ...alice, usage: tokens(50, 10) });
+  tracker.record({ conversationId: 'c2', model: 'm2', usage: tokens(300, 0) });
+
+  assert.deepEqual(tracker.summarize('conversation'), [
+    { key: 'c2', promptTokens: 300, completionTokens: 0, totalTokens: 300, requests: 1 },
+    { key: 'c1', promptTokens: 150, completionTokens: 30, totalTokens: 180, requests: 2 },
+  ]);
+  assert.deepEqual(
+    tracker.summarize('sender').map((s) => s.key),
+    ['(api)', 'alice']
+  );
+  assert.deepEqual(
+    tracker.summarize('model', { channel: 'whatsapp' }).map((s) => [s.key, s.totalTokens]),
+    [['m1', 180]]
+  );
+});
+
+test('a new day starts a new bucket and resets the daily usage only', (t) => {
+  const { tracker } = setup(t, {}, at(2026, 3, 15, 23));
+  tracker.record({ conversationId: 'c1', sender: 'alice', model: 'm', usage: tokens(100, 0) });
+
+  t.mock.timers.tick(2 * 60 * 60 * 1000);
+  assert.deepEqual(tracker.getSenderUsage('alice'), { daily: 0, monthly: 100 });
+  tracker.record({ conversationId: 'c1', sender: 'alice', model: 'm', usage: tokens(40, 0) });
+
+  assert.deepEqual(tracker.getSenderUsage('alice'), { daily: 40, monthly: 140 });
+  assert.deepEqual(
+    tracker.summarize('day').map((d) => [d.key, d.totalTokens]),
+    [['2026-03-15', 100], ['2026-03-16', 40]]
+  );
+  assert.deepEqual(
+    tracker.summarize('day', { since: '2026-03-16' }).map((d) => d.key),
+    ['2026-03-16']
+  );
+});
+
+test('a new month resets the monthly usage', (t) => {
+  const { tracker } = setup(t, {}, at(2026, 3, 31));
+  tracker.record({ conversationId: 'c1', sender: 'alice', model: 'm', usage: tokens(100, 0) });
+
+  t.mock.timers.setTime(at(2026, 4, 1));
+  assert.deepEqual(tracker.getSenderUsage('alice'), { daily: 0, monthly: 0 });
+});
+
+test('quotas apply per sender with overrides', (t) => {
+  const { tracker } = setup(t, {
+    quotas: { daily: 100, monthly: 1000, senders: { bob: { daily: 500 }, carol: {} } },
+  });
+  const use = (sender: string, n: number) =>
+    tracker.record({ conversationId: sender, sender, model: 'm', usage: tokens(n, 0) });
+
+  use('alice', 99);
+  assert.equal(tracker.checkQuota('alice'), null);
+  use('alice', 1);
+  assert.deepEqual(tracker.checkQuota('alice'), { period: 'daily', limit: 100, used: 100 });
+
+  use('bob', 300);
+  assert.equal(tracker.checkQuota('bob'), null);
+  assert.deepEqual(tracker.getQuota('bob'), { daily: 500, monthly: 1000 });
+  assert.deepEqual(tracker.getQuota('carol'), { daily: 100, monthly: 1000 });
+});
+
+test('the monthly quota carries over days', (t) => {
+  const { tracker } = setup(t, { quotas: { monthly: 150 } }, at(2026, 3, 1));
+  tracker.record({ conversationId: 'c', sender: 'alice', model: 'm', usage: tokens(100, 0) });
+  t.mock.timers.setTime(at(2026, 3, 2));
+  tracker.record({ conversationId: 'c', sender: 'alice', model: 'm', usage: tokens(30, 20) });
+  assert.deepEqual(tracker.checkQuota('alice'), { period: 'monthly', limit: 150, used: 150 });
+
+  t.mock.timers.setTime(at(2026, 4, 1));
+  assert.equal(tracker.checkQuota('alice'), null);
+});
+
+test('a disabled tracker records nothing and enforces nothing', (t) => {
+  const { tracker } = setup(t, { enabled: false, quotas: { daily: 1 } });
+  tracker.record({ conversationId: 'c', sender: 'alice', model: 'm', usage: tokens(100, 0) });
+  assert.deepEqual(tracker.summarize('sender'), []);
+  assert.equal(tracker.checkQuota('alice'), null);
+});
+
+test('usage.json is written after a delay and reloaded on startup', (t) => {
+  const { dir, tracker, config } = setup(t);
+  const file = path.join(dir, 'usage.json');
+  tracker.record({ conversationId: 'c1', sender: 'alice', model: 'm', usage: tokens(10, 5) });
+  tracker.record({ conversationId: 'c1', sender: 'alice', model: 'm', usage: tokens(10, 5) });
+  assert.equal(fs.existsSync(file), false);
+
+  t.mock.timers.tick(5000);
+  assert.equal(JSON.parse(fs.readFileSync(file, 'utf-8')).length, 1);
+  const reloaded = new UsageTracker(config, dir);
+  assert.deepEqual(reloaded.getSenderUsage('alice'), { daily: 30, monthly: 30 });
+});
+
+test('buckets from before the previous month are dropped', (t) => {
+  const { dir, tracker, config } = setup(t, {}, at(2026, 1, 20));
+  tracker.record({ conversationId: 'c', model: 'm', usage: tokens(1, 0) });
+  t.mock.timers.setTime(at(2026, 2, 10));
+  tracker.record({ conversationId: 'c', model: 'm', usage: tokens(2, 0) });
+  t.mock.timers.setTime(at(2026, 3, 5));
+  tracker.record({ conversationId: 'c', model: 'm', usage: tokens(4, 0) });
+
+  assert.deepEqual(
+    tracker.summarize('day').map((d) => d.key),
+    ['2026-02-10', '2026-03-05']
+  );
+
+  // Also when loading a file that was last written long ago
+  t.mock.timers.tick(5000);
+  t.mock.timers.setTime(at(2026, 4, 1));
+  assert.deepEqual(
+    new UsageTracker(config, dir).summarize('day').map((d) => d.key),
+    ['2026-03-05']
+  );
+});
+
+test('formatQuotaMessage says when the allowance resets', () => {
+  assert.match(
+    formatQuotaMessage({ period: 'daily', limit: 100000, used: 100000 }),
+    /daily usage limit \(100,000 tokens\).*resets tomorrow\.$/
+  );
+  assert.match(
+    formatQuotaMessage({ period: 'monthly', limit: 5, used: 6 }),
+    /resets at the start of next month\.$/
+  );
+});
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { WebhookConfig } from '../src/config/configManager';
+import { parseWebhookPayload, WebhookManager, WebhookRequest } from '../src/gateway/webhooks';
+
+function request(body: string, headers: Record<string, string> = {}, query = {}): WebhookRequest {
+  return { headers, query, rawBody: Buffer.from(body), payload: undefined };
+}
+
+const sign = (secret: string, body: string) =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+const hmacHook: WebhookConfig = {
+  id: 'github',
+  secret: 's3cret',
+  signature: 'hmac-sha256',
+  promptTemplate: '{{payload}}',
+};
+const tokenHook: WebhookConfig = { id: 'ci', secret: 'tok', promptTemplate: '{{payload}}' };
+
+test('HMAC hooks verify the signature over the raw body', () => {
+  const manager = new WebhookManager([hmacHook]);
+  // Whitespace and key order as sent; a re-serialized body would not match
+  const body = '{ "action":"opened",  "number": 1 }';
+
+  assert.equal(
+    manager.verify(hmacHook, request(body, { 'x-hub-signature-256': sign('s3cret', body) })),
+    true
+  );
+  assert.equal(
+    manager.verify(
+      hmacHook,
+      request(JSON.stringify(JSON.parse(body)), { 'x-hub-signature-256': sign('s3cret', body) })
+    ),
+    false
+  );
+  assert.equal(
+    manager.verify(hmacHook, request(body, { 'x-hub-signature-256': sign('other', body) })),
+    false
+  );
+  assert.equal(manager.verify(hmacHook, request(body)), false);
+});
+
+test('HMAC hooks read the configured signature header over any content type', () => {
+  const hook: WebhookConfig = { ...hmacHook, signatureHeader: 'X-Signature' };
+  const manager = new WebhookManager([hook]);
+  const body = 'payload=%7B%22a%22%3A1%7D';
+  const headers = {
+    'content-type': 'application/x-www-form-urlencoded',
+    'x-signature': sign('s3cret', body),
+  };
+  assert.equal(manager.verify(hook, request(body, headers)), true);
+});
+
+test('token hooks accept the secret in a header or the query', () => {
+  const manager = new WebhookManager([tokenHook]);
+  assert.equal(manager.verify(tokenHook, request('', { 'x-webhook-secret': 'tok' })), true);
+  assert.equal(manager.verify(tokenHook, request('', {}, { secret: 'tok' })), true);
+  assert.equal(manager.verify(tokenHook, request('', { 'x-webhook-secret': 'to' })), false);
+  assert.equal(manager.verify(tokenHook, request('', {}, { secret: ['tok'] })), false);
+});
+
+test('a hook without a secret rejects every request', () => {
+  const hook: WebhookConfig = { ...tokenHook, secret: '' };
+  const manager = new WebhookManager([hook]);
+  assert.equal(manager.verify(hook, request('', { 'x-webhook-secret': '' })), false);
+});
+
+test('parseWebhookPayload parses by content type', () => {
+  assert.deepEqual(
+    parseWebhookPayload(request('{"a": 1}', { 'content-type': 'application/json; charset=utf-8' })),
+    { a: 1 }
+  );
+  assert.deepEqual(
+    parseWebhookPayload(request('{"a": 1}', { 'content-type': 'application/vnd.api+json' })),
+    { a: 1 }
+  );
+  assert.deepEqual(
+    parseWebhookPayload(
+      request('payload=%7B%22a%22%3A1%7D', { 'content-type': 'application/x-www-form-urlencoded' })
+    ),
+    { a: 1 }
+  );
+  // querystring returns an object without a prototype
+  const fields = parseWebhookPayload(
+    request('x=1&y=2', { 'content-type': 'application/x-www-form-urlencoded' })
+  );
+  assert.deepEqual({ ...(fields as object) }, { x: '1', y: '2' });
+  assert.equal(
+    parseWebhookPayload(request('plain text', { 'content-type': 'text/plain' })),
+    'plain text'
+  );
+  assert.deepEqual(parseWebhookPayload(request('', { 'content-type': 'application/json' })), {});
+  assert.throws(() => parseWebhookPayload(request('{bad', { 'content-type': 'application/json' })));
+});
+
+test('renderPrompt fills payload, header and hook placeholders', () => {
+  const hook: WebhookConfig = {
+    id: 'gh',
+    secret: 'x',
+    promptTemplate:
+      '{{hook.id}}: {{headers.X-GitHub-Event}} on {{ payload.repository.full_name }}{{payload.missing}}{{unknown}}',
+  };
+  const manager = new WebhookManager([hook]);
+  const req = request('', { 'x-github-event': 'push' });
+  req.payload = { repository: { full_name: 'a/b' } };
+  assert.equal(manager.renderPrompt(hook, req), 'gh: push on a/b');
+});
+
+test('renderPrompt truncates a large payload', () => {
+  const hook: WebhookConfig = { id: 'big', secret: 'x', promptTemplate: '{{payload}}' };
+  const manager = new WebhookManager([hook]);
+  const req = request('');
+  req.payload = { data: 'x'.repeat(20_000) };
+  const prompt = manager.renderPrompt(hook, req);
+  assert.ok(prompt.endsWith('\n[...truncated]'));
+  assert.equal(prompt.length, 8000 + '\n[...truncated]'.length);
+});
+
+test('getConversationId defaults to one conversation per hook', () => {
+  const manager = new WebhookManager([tokenHook]);
+  assert.equal(manager.getConversationId(tokenHook), 'webhook-ci');
+  assert.equal(manager.getConversationId({ ...tokenHook, conversationId: 'ops' }), 'ops');
+});